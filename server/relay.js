@@ -0,0 +1,234 @@
+// Local relay for collaborative editing: `npm run relay`, then connect the
+// editor to ws://localhost:8787. Node built-ins only, so it runs offline.
+//
+// The relay keeps the winning op for every cell & region anchor, so a client
+// that joins late gets the current map, and passes ops & cursors on to the
+// other clients.
+// It only speaks the subset of WebSocket that browsers send: text frames,
+// fragmentation, ping and close.
+import { createHash } from "node:crypto";
+import { createServer } from "node:http";
+
+const PORT = Number(process.env.PORT) || 8787;
+const WEBSOCKET_GUID = "258EAFA5-E914-47DA-95CA-C5AB0DC85B11";
+
+// same order as isNewerOp in src/components/Canvas/crdt.ts
+const isNewerOp = (op, than) =>
+  !than ||
+  op.clock > than.clock ||
+  (op.clock === than.clock && op.clientId > than.clientId);
+
+// anything else from a client is dropped rather than stored & passed on
+const isOp = (op) =>
+  typeof op === "object" &&
+  op !== null &&
+  typeof op.floorId === "string" &&
+  typeof op.layerId === "string" &&
+  Number.isInteger(op.row) &&
+  Number.isInteger(op.col) &&
+  Number.isFinite(op.clock) &&
+  typeof op.clientId === "string";
+
+const isCellOp = (op) =>
+  isOp(op) && (typeof op.fill === "string" || op.fill === null);
+
+// region metadata goes by the region's anchor cell, see crdt.ts
+const isRegionMetaOp = (op) =>
+  isOp(op) &&
+  (op.meta === null ||
+    (typeof op.meta === "object" &&
+      typeof op.meta.name === "string" &&
+      typeof op.meta.notes === "string"));
+
+const cellOpKey = ({ floorId, layerId, row, col }) =>
+  `${floorId}/${layerId}/${row}.${col}`;
+
+const ops = new Map();
+const regionMetaOps = new Map();
+// socket -> peer, once the client said hello
+const clients = new Map();
+
+const encodeFrame = (opcode, payload) => {
+  const length = payload.length;
+  let header;
+
+  if (length < 126) {
+    header = Buffer.from([0x80 | opcode, length]);
+  } else if (length < 65536) {
+    header = Buffer.alloc(4);
+    header.writeUInt16BE(length, 2);
+    header[1] = 126;
+  } else {
+    header = Buffer.alloc(10);
+    header.writeBigUInt64BE(BigInt(length), 2);
+    header[1] = 127;
+  }
+  header[0] = 0x80 | opcode;
+
+  return Buffer.concat([header, payload]);
+};
+
+const send = (socket, message) => {
+  if (!socket.destroyed) {
+    socket.write(encodeFrame(0x1, Buffer.from(JSON.stringify(message))));
+  }
+};
+
+const broadcast = (from, message) => {
+  for (const socket of clients.keys()) {
+    if (socket !== from) send(socket, message);
+  }
+};
+
+const handleMessage = (socket, text) => {
+  let message;
+  try {
+    message = JSON.parse(text);
+  } catch {
+    return;
+  }
+
+  if (typeof message !== "object" || message === null) return;
+
+  switch (message.type) {
+    case "hello": {
+      send(socket, {
+        type: "snapshot",
+        ops: [...ops.values()],
+        regionMeta: [...regionMetaOps.values()],
+        peers: [...clients.values()],
+      });
+      clients.set(socket, message.peer);
+      broadcast(socket, { type: "join", peer: message.peer });
+      break;
+    }
+    case "ops": {
+      if (!Array.isArray(message.ops) || !message.ops.every(isCellOp)) break;
+      const won = message.ops.filter((op) => {
+        const key = cellOpKey(op);
+        if (!isNewerOp(op, ops.get(key))) return false;
+        ops.set(key, op);
+        return true;
+      });
+      if (won.length) broadcast(socket, { type: "ops", ops: won });
+      break;
+    }
+    case "regionMeta": {
+      if (!Array.isArray(message.ops) || !message.ops.every(isRegionMetaOp)) {
+        break;
+      }
+      const won = message.ops.filter((op) => {
+        const key = cellOpKey(op);
+        if (!isNewerOp(op, regionMetaOps.get(key))) return false;
+        regionMetaOps.set(key, op);
+        return true;
+      });
+      if (won.length) broadcast(socket, { type: "regionMeta", ops: won });
+      break;
+    }
+    case "cursor": {
+      broadcast(socket, message);
+      break;
+    }
+  }
+};
+
+const handleClose = (socket) => {
+  const peer = clients.get(socket);
+  clients.delete(socket);
+  if (peer) broadcast(socket, { type: "leave", clientId: peer.clientId });
+};
+
+// handles every complete frame buffered so far, keeping a partial one
+const readFrames = (socket, state) => {
+  let buffer = state.buffer;
+
+  while (buffer.length >= 2) {
+    const fin = (buffer[0] & 0x80) !== 0;
+    const opcode = buffer[0] & 0x0f;
+    const masked = (buffer[1] & 0x80) !== 0;
+    let length = buffer[1] & 0x7f;
+    let offset = 2;
+
+    if (length === 126) {
+      if (buffer.length < 4) break;
+      length = buffer.readUInt16BE(2);
+      offset = 4;
+    } else if (length === 127) {
+      if (buffer.length < 10) break;
+      length = Number(buffer.readBigUInt64BE(2));
+      offset = 10;
+    }
+
+    const maskOffset = offset;
+    if (masked) offset += 4;
+    if (buffer.length < offset + length) break;
+
+    const payload = Buffer.from(buffer.subarray(offset, offset + length));
+    if (masked) {
+      for (let i = 0; i < payload.length; i++) {
+        payload[i] ^= buffer[maskOffset + (i % 4)];
+      }
+    }
+    buffer = buffer.subarray(offset + length);
+
+    if (opcode === 0x8) {
+      socket.end(encodeFrame(0x8, Buffer.alloc(0)));
+      break;
+    }
+    if (opcode === 0x9) {
+      socket.write(encodeFrame(0xa, payload));
+      continue;
+    }
+    if (opcode === 0x1 || opcode === 0x0) {
+      state.fragments.push(payload);
+      if (fin) {
+        const text = Buffer.concat(state.fragments).toString();
+        state.fragments = [];
+        // one bad frame mustn't take down every room
+        try {
+          handleMessage(socket, text);
+        } catch (error) {
+          console.error("Dropped a message that failed:", error);
+        }
+      }
+    }
+  }
+
+  state.buffer = buffer;
+};
+
+const server = createServer((_, response) => {
+  response.writeHead(426, { "Content-Type": "text/plain" });
+  response.end("Store mapper relay, connect with a WebSocket\n");
+});
+
+server.on("upgrade", (request, socket) => {
+  const key = request.headers["sec-websocket-key"];
+  if (request.headers.upgrade?.toLowerCase() !== "websocket" || !key) {
+    socket.end("HTTP/1.1 400 Bad Request\r\n\r\n");
+    return;
+  }
+
+  const accept = createHash("sha1")
+    .update(key + WEBSOCKET_GUID)
+    .digest("base64");
+  socket.write(
+    "HTTP/1.1 101 Switching Protocols\r\n" +
+      "Upgrade: websocket\r\n" +
+      "Connection: Upgrade\r\n" +
+      `Sec-WebSocket-Accept: ${accept}\r\n\r\n`
+  );
+
+  const state = { buffer: Buffer.alloc(0), fragments: [] };
+  socket.on("data", (data) => {
+    state.buffer = Buffer.concat([state.buffer, data]);
+    readFrames(socket, state);
+  });
+  socket.on("close", () => handleClose(socket));
+  socket.on("error", () => socket.destroy());
+});
+
+server.listen(PORT, () => {
+  console.log(`Relay listening on ws://localhost:${PORT}`);
+});
@@ -0,0 +1,14 @@
+import React from "react";
+import ReactDOM from "react-dom/client";
+import { MantineProvider, createTheme } from "@mantine/core";
+import { RegionBenchmark } from "./components/Canvas";
+import "@mantine/core/styles.css";
+
+// served by `npm run dev` at /benchmark.html
+ReactDOM.createRoot(document.getElementById("root")!).render(
+  <React.StrictMode>
+    <MantineProvider theme={createTheme({})}>
+      <RegionBenchmark />
+    </MantineProvider>
+  </React.StrictMode>
+);
@@ -0,0 +1,91 @@
+import {
+  Button,
+  Group,
+  Paper,
+  Select,
+  Slider,
+  Stack,
+  Text,
+  TextInput,
+} from "@mantine/core";
+import {
+  Annotation,
+  annotationIconLabels,
+  annotationIcons,
+  isAnnotationIcon,
+} from "./labels";
+
+const iconOptions = annotationIcons.map((icon) => ({
+  value: icon,
+  label: annotationIconLabels[icon],
+}));
+
+type AnnotationPanelProps = {
+  annotation?: Annotation;
+  onChange: (update: Partial<Omit<Annotation, "id" | "floorId">>) => void;
+  onDone: () => void;
+  onRemove: () => void;
+};
+
+export const AnnotationPanel = ({
+  annotation,
+  onChange,
+  onDone,
+  onRemove,
+}: AnnotationPanelProps) => {
+  return (
+    <Paper shadow="sm" p="sm" w={240}>
+      <Stack gap="xs">
+        <Group justify="space-between">
+          <Text fw={500} size="sm">
+            Labels
+          </Text>
+          {annotation && (
+            <Button size="xs" variant="subtle" onClick={onDone}>
+              Done
+            </Button>
+          )}
+        </Group>
+        {annotation ? (
+          <>
+            <TextInput
+              size="xs"
+              label="Text"
+              value={annotation.text}
+              onChange={(e) => onChange({ text: e.currentTarget.value })}
+            />
+            <Select
+              size="xs"
+              label="Icon"
+              placeholder="None"
+              clearable
+              data={iconOptions}
+              value={annotation.icon ?? null}
+              onChange={(value) =>
+                onChange({ icon: isAnnotationIcon(value) ? value : undefined })
+              }
+            />
+            <Text size="xs">Size</Text>
+            <Slider
+              size="xs"
+              min={0.5}
+              max={4}
+              step={0.25}
+              label={(value) => `${value} cells`}
+              value={annotation.size}
+              onChange={(size) => onChange({ size })}
+            />
+            <Button size="xs" variant="subtle" color="red" onClick={onRemove}>
+              Remove label
+            </Button>
+          </>
+        ) : (
+          <Text size="xs" c="dimmed">
+            Click the map to place a label, or click a label to select it and
+            drag it around.
+          </Text>
+        )}
+      </Stack>
+    </Paper>
+  );
+};
@@ -0,0 +1,76 @@
+import { useState } from "react";
+import {
+  Button,
+  Group,
+  NumberInput,
+  Paper,
+  SegmentedControl,
+  Stack,
+  Text,
+} from "@mantine/core";
+import { LengthUnit, MapScale, formatScale, lengthUnits } from "./underlay";
+
+type CalibrationPanelProps = {
+  // between the two clicked points, in cells
+  distance?: number;
+  mapScale?: MapScale;
+  onApply: (realDistance: number, unit: LengthUnit) => void;
+};
+
+export const CalibrationPanel = ({
+  distance,
+  mapScale,
+  onApply,
+}: CalibrationPanelProps) => {
+  const [realDistance, setRealDistance] = useState<string | number>("");
+  const [unit, setUnit] = useState<LengthUnit>(mapScale?.unit ?? "m");
+
+  const canApply =
+    distance !== undefined &&
+    typeof realDistance === "number" &&
+    realDistance > 0;
+
+  return (
+    <Paper shadow="sm" p="sm" w={240}>
+      <Stack gap="xs">
+        <Text fw={500} size="sm">
+          Calibrate scale
+        </Text>
+        <Text size="xs" c="dimmed">
+          {distance === undefined
+            ? "Click two points a known distance apart, e.g. the ends of a dimension line on the floor plan."
+            : `The points are ${distance.toFixed(2)} cells apart.`}
+        </Text>
+        <Group gap="xs" align="end" wrap="nowrap">
+          <NumberInput
+            size="xs"
+            label="Real distance"
+            min={0}
+            decimalScale={3}
+            value={realDistance}
+            onChange={setRealDistance}
+          />
+          <SegmentedControl
+            size="xs"
+            value={unit}
+            onChange={(value) => setUnit(value as LengthUnit)}
+            data={[...lengthUnits]}
+          />
+        </Group>
+        <Button
+          size="xs"
+          variant="default"
+          disabled={!canApply}
+          onClick={() => canApply && onApply(realDistance, unit)}
+        >
+          Apply
+        </Button>
+        {mapScale && (
+          <Text size="xs" c="dimmed">
+            Now {formatScale(mapScale)}
+          </Text>
+        )}
+      </Stack>
+    </Paper>
+  );
+};
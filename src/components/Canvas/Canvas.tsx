@@ -1,7 +1,157 @@
-import { useLayoutEffect, useRef } from "react";
-import { Group, Stack } from "@mantine/core";
+import { useLayoutEffect, useRef, useState } from "react";
+import { Button, Group, Stack, Text } from "@mantine/core";
 import tinycolor from "tinycolor2";
 import { TestBtn } from "./TestBtn";
+import {
+  CellState,
+  EditHistory,
+  RegionEdits,
+  Transaction,
+  invertRegionEdits,
+} from "./history";
+import { CanvasEvents, EditEventBatch, EventEmitter } from "./events";
+import { StoreMapFile, parseMapFile, serializeMap } from "./mapFile";
+import { MapFileActions } from "./MapFileActions";
+import { GeoJsonPanel } from "./GeoJsonPanel";
+import { downloadFile } from "./download";
+import { RegionMeta, emptyRegionMeta, mergeRegionMeta } from "./regions";
+import { RegionInspector } from "./RegionInspector";
+import { exportSvg } from "./svgExport";
+import {
+  GeoJsonTransform,
+  exportGeoJson,
+  getFeatureColor,
+  getFeatureRegionMeta,
+  parseGeoJsonPolygons,
+  rasterizePolygon,
+} from "./geoJson";
+import { benchmarkRegionStrokes } from "./benchmark";
+import { ChunkCoord, RenderContext } from "./renderCache";
+import { LayerSettings, MapLayer } from "./layers";
+import {
+  Connector,
+  ConnectorKind,
+  FloorSettings,
+  MapFloor,
+  connectorGlyphs,
+  createConnectorId,
+  createFloor,
+  defaultFloor,
+} from "./floors";
+import {
+  Tool,
+  brushCells,
+  getShapeCells,
+  isShapeTool,
+  rectangleCells,
+} from "./tools";
+import {
+  CLICK_SLOP,
+  LONG_PRESS_MS,
+  LONG_PRESS_SLOP,
+  isEraserEvent,
+  midpoint,
+  penRadius,
+  pointDistance,
+} from "./gestures";
+import {
+  Stamp,
+  StampRegion,
+  coordKey,
+  flipStamp,
+  getCoordBounds,
+  rotateStamp,
+  stampCoords,
+} from "./selection";
+import { ToolPalette } from "./ToolPalette";
+import {
+  Product,
+  ProductLocation,
+  isRegionLocation,
+  parseProductCsv,
+} from "./products";
+import { ProductPanel } from "./ProductPanel";
+import { RoutePanel } from "./RoutePanel";
+import { PickRoute, PickTarget, planPickRoute } from "./pickList";
+import { PickListPanel } from "./PickListPanel";
+import { computeMapStats } from "./regionStats";
+import { RegionStatsPanel } from "./RegionStatsPanel";
+import {
+  PaletteEntry,
+  createPaletteEntry,
+  defaultPalette,
+  findPaletteEntry,
+} from "./palette";
+import {
+  CellBounds,
+  RouteRules,
+  defaultRouteRules,
+  findPath,
+} from "./pathfinding";
+import { LayerPanel } from "./LayerPanel";
+import { PalettePanel } from "./PalettePanel";
+import { CollabClient, CollabPeer, CollabStatus, RemoteCursor } from "./collab";
+import { CollabPanel } from "./CollabPanel";
+import {
+  CellOp,
+  RegionMetaOp,
+  cellOpKey,
+  getRegionAnchor,
+  isNewerOp,
+} from "./crdt";
+import { groupCellsByRegion } from "./outline";
+import { FloorPanel } from "./FloorPanel";
+import { ConnectorPanel } from "./ConnectorPanel";
+import {
+  MinimapLayout,
+  VIEW_ANIMATION_MS,
+  ViewBookmark,
+  createBookmarkId,
+  getMinimapLayout,
+  interpolateView,
+  isInMinimap,
+  minimapToWorld,
+  viewComponents,
+  worldToMinimap,
+} from "./view";
+import { ViewPanel } from "./ViewPanel";
+import {
+  LengthUnit,
+  MapScale,
+  Underlay,
+  calibrateScale,
+  createUnderlay,
+  readImageFile,
+} from "./underlay";
+import { UnderlayPanel } from "./UnderlayPanel";
+import { CalibrationPanel } from "./CalibrationPanel";
+import {
+  MeasureDistances,
+  MeasureSnap,
+  Measurement,
+  formatLength,
+  getMeasureDistances,
+} from "./measure";
+import { MeasurePanel } from "./MeasurePanel";
+import {
+  Annotation,
+  LabelSpot,
+  MAX_REGION_LABEL_CELLS,
+  MIN_LABEL_PX,
+  createAnnotationId,
+  findLabelSpot,
+  getAnnotationText,
+} from "./labels";
+import { AnnotationPanel } from "./AnnotationPanel";
+import {
+  CardinalBit,
+  CellNeighbors,
+  Direction,
+  GridCell,
+  GridCellCoord,
+  XYCoord,
+  directions,
+} from "./types";
 
 type TestShape = [number, number, string];
 
@@ -21,59 +171,17 @@ const testShapes: TestShape[] = [
   [10, 12, "indianred"],
 ];
 
-type XYCoord = {
-  x: number;
-  y: number;
-};
-
-type GridCellCoord = {
-  row: number;
-  col: number;
-};
-
-type GridCell = {
-  id: string;
-  row: number;
-  col: number;
-  neighbors: CellNeighbors;
-  fillStyle: string;
-  adjacency: number;
-  regionId: number;
-};
-
-const directions = ["north", "east", "south", "west"] as const;
-type Direction = (typeof directions)[number];
-
-type CellNeighbors = { [key in Direction]: GridCell | undefined };
-
-enum CardinalBit {
-  North = 1 << 3,
-  East = 1 << 2,
-  South = 1 << 1,
-  West = 1 << 0,
-}
-
-const colors = {
-  red: "indianred",
-  blue: "#4b76ff",
-};
-
-const DEFAULT_GRID_SIZE = 300;
-const DEFAULT_GRID_OFFSET = DEFAULT_GRID_SIZE / 2;
-const DEFAULT_BASE_GRID_UNIT_PX = 20;
-const DEFAULT_MAX_PAN: XYCoord = {
-  x: DEFAULT_GRID_OFFSET * DEFAULT_BASE_GRID_UNIT_PX,
-  y: DEFAULT_GRID_OFFSET * DEFAULT_BASE_GRID_UNIT_PX,
-};
-const DEFAULT_MIN_PAN: XYCoord = {
-  x: -DEFAULT_MAX_PAN.x,
-  y: -DEFAULT_MAX_PAN.y,
-};
-
 enum CursorMode {
   Pan = 0,
   Paint,
   Erase,
+  Shape,
+  Marquee,
+  Move,
+  Pinch,
+  Minimap,
+  Measure,
+  MoveAnnotation,
   Rest,
 }
 
@@ -84,31 +192,119 @@ class Canvas {
   worldWidth: number;
   cellSize = 20;
   currentTransform: DOMMatrix = new DOMMatrix();
+  viewAnimation?: { from: DOMMatrix; to: DOMMatrix; start: number };
   shouldRender = true;
   mousePos?: XYCoord;
   mouseCellCoord?: GridCellCoord;
   mouseRegionId?: number;
+  onCellHover?: (cellCoord?: GridCellCoord) => void;
+  selectedRegionId?: number;
+  onRegionSelect?: (regionId?: number) => void;
+  // drawn like the hovered region, e.g. search results in a viewer
+  highlightedRegionIds: number[] = [];
+  // a viewer can only pan, zoom & click; nothing on the map changes
+  readOnly = false;
+  // where a read-only press began; let go nearby, it's a click
+  pressStart?: XYCoord;
+  onRegionClick?: (regionId: number) => void;
+  isDestroyed = false;
+  events = new EventEmitter<CanvasEvents>();
+  // open while a transaction runs, if anyone is listening
+  eventBatch?: EditEventBatch;
+  // the view as of the last viewChanged event
+  emittedViewTransform = this.currentTransform;
   cursorMode = CursorMode.Rest;
   isPanning = false;
   mouseDown = false;
-  fillStyle = colors.red;
-  nextRegionId = 0;
-
-  gridSize = DEFAULT_GRID_SIZE;
-  gridOffset = DEFAULT_GRID_SIZE / 2;
-  minPan = DEFAULT_MIN_PAN;
-  maxPan = DEFAULT_MAX_PAN;
-
-  cellData: GridCell[][] = [];
+  // fingers on the canvas by pointer id, in viewport coordinates
+  touchPoints = new Map<number, XYCoord>();
+  pinch?: { distance: number; midpoint: XYCoord };
+  longPressTimer?: ReturnType<typeof setTimeout>;
+  longPressStart?: XYCoord;
+  palette = defaultPalette();
+  showLegend = false;
+  onPaletteChange?: () => void;
+  fillStyle = this.palette[0].color;
+  tool = Tool.Brush;
+  shapeStart?: GridCellCoord;
+  shapePreview: GridCellCoord[] = [];
+  cellSelection = new Map<string, GridCellCoord>();
+  marqueeStart?: GridCellCoord;
+  moveStart?: GridCellCoord;
+  moveOffset?: GridCellCoord;
+  clipboard?: Stamp;
+  history = new EditHistory();
+  floors = [new MapFloor(defaultFloor.id, defaultFloor.name)];
+  activeFloor = this.floors[0];
+  showFloorBelow = false;
+  onFloorsChange?: () => void;
+  onLayersChange?: () => void;
+  connectors: Connector[] = [];
+  activeConnectorId?: string;
+  connectorKind: ConnectorKind = "stairs";
+  onConnectorsChange?: () => void;
+  collab?: CollabClient;
+  remoteCursors = new Map<string, RemoteCursor>();
+  // remote ops that arrived during a local stroke, applied once it's done
+  queuedRemoteOps: CellOp[] = [];
+  queuedRemoteRegionMeta: RegionMetaOp[] = [];
+  isApplyingRemote = false;
+  onCollabChange?: () => void;
+  bookmarks: ViewBookmark[] = [];
+  onBookmarksChange?: () => void;
+  showMinimap = true;
+  // the painted cells drawn at minimap size, redrawn after edits
+  minimapImage?: OffscreenCanvas;
+  minimapStale = true;
+  mapScale?: MapScale;
+  onMapScaleChange?: () => void;
+  // world coordinates clicked with the calibrate tool, at most two
+  calibrationPoints: XYCoord[] = [];
+  onCalibrationChange?: () => void;
+  underlayImages = new Map<string, HTMLImageElement>();
+  onUnderlayChange?: () => void;
+  measurement?: Measurement;
+  measureSnap: MeasureSnap = "center";
+  // real lengths are shown in this unit, whatever the map was calibrated in
+  measureUnit: LengthUnit = "m";
+  onMeasurementChange?: () => void;
+  annotations: Annotation[] = [];
+  activeAnnotationId?: string;
+  // where the dragged annotation was grabbed, relative to its center
+  annotationGrab?: XYCoord;
+  onAnnotationsChange?: () => void;
+  showRegionLabels = true;
+  // named regions of the active floor's visible layers, rebuilt after edits;
+  // `textWidth` is the width of the text at a font size of 1
+  regionLabels?: Array<LabelSpot & { text: string; textWidth: number }>;
+  products = new Map<string, Product>();
+  highlightedProductSku?: string;
+  onProductsChange?: () => void;
+  routeRules = defaultRouteRules();
+  routeStart?: GridCellCoord;
+  routeEnd?: GridCellCoord;
+  route?: GridCellCoord[];
+  onRouteChange?: (route?: GridCellCoord[]) => void;
+  pickTargets: PickTarget[] = [];
+  pickRoute?: PickRoute;
+  onPickRouteChange?: (pickRoute?: PickRoute) => void;
 
   canvas: HTMLCanvasElement;
   clientRect: DOMRect;
   context: CanvasRenderingContext2D;
 
+  // world-space extents of everything painted, on any layer
   minPaintedCoord?: XYCoord;
   maxPaintedCoord?: XYCoord;
-
-  constructor(canvasRef: React.RefObject<HTMLCanvasElement>) {
+  paintedExtentsStale = false;
+  onMapChange?: () => void;
+
+  constructor(
+    canvasRef: React.RefObject<HTMLCanvasElement>,
+    // a headless canvas is only drawn into by code, like the benchmark's:
+    // it starts empty and listens to no input
+    { readOnly = false, headless = false } = {}
+  ) {
     const canvas = canvasRef.current;
     if (!canvas) throw new Error("Canvas ref null");
     this.canvas = canvas;
@@ -121,20 +317,56 @@ class Canvas {
 
     this.worldHeight = this.clientRect.height;
     this.worldWidth = this.clientRect.width;
+    this.readOnly = readOnly;
 
-    this.registerEventHandlers();
+    if (!headless) this.registerEventHandlers();
     this.render();
-    this.paintTestShapes();
+    if (!readOnly && !headless) this.paintTestShapes();
   }
 
   registerEventHandlers = () => {
-    this.canvas.addEventListener("wheel", this.handleWheel);
+    // touches go to the pointer handlers instead of scrolling the page
+    this.canvas.style.touchAction = "none";
+    // not passive, so the wheel can zoom without also scrolling the page
+    this.canvas.addEventListener("wheel", this.handleWheel, {
+      passive: false,
+    });
     this.canvas.addEventListener("pointerdown", this.handlePointerDown);
     this.canvas.addEventListener("pointerup", this.handlePointerUp);
     this.canvas.addEventListener("pointermove", this.handlePointerMove);
     this.canvas.addEventListener("pointerleave", this.handlePointerLeave);
+    this.canvas.addEventListener("contextmenu", this.handleContextMenu);
+    if (!this.readOnly) window.addEventListener("keydown", this.handleKeyDown);
   };
 
+  // for canvases that come & go, like an embedded viewer
+  destroy() {
+    this.isDestroyed = true;
+    this.disconnectCollab();
+    this.cancelLongPress();
+
+    this.canvas.removeEventListener("wheel", this.handleWheel);
+    this.canvas.removeEventListener("pointerdown", this.handlePointerDown);
+    this.canvas.removeEventListener("pointerup", this.handlePointerUp);
+    this.canvas.removeEventListener("pointermove", this.handlePointerMove);
+    this.canvas.removeEventListener("pointerleave", this.handlePointerLeave);
+    this.canvas.removeEventListener("contextmenu", this.handleContextMenu);
+    window.removeEventListener("keydown", this.handleKeyDown);
+    window.removeEventListener("pointermove", this.handlePointerMove);
+    window.removeEventListener("pointerup", this.transferMouseToCanvas);
+    window.removeEventListener("pointercancel", this.transferMouseToCanvas);
+  }
+
+  // resizing the element resets its context, so the view is put back
+  resize(width: number, height: number) {
+    if (width === this.canvas.width && height === this.canvas.height) return;
+
+    this.canvas.width = width;
+    this.canvas.height = height;
+    this.clientRect = this.canvas.getBoundingClientRect();
+    this.setViewTransform(this.currentTransform);
+  }
+
   transferMouseToWindow = () => {
     this.canvas.removeEventListener("pointermove", this.handlePointerMove);
     this.canvas.removeEventListener("pointerup", this.handlePointerUp);
@@ -144,12 +376,18 @@ class Canvas {
       // passive: true,
     });
     window.addEventListener("pointerup", this.transferMouseToCanvas);
+    window.addEventListener("pointercancel", this.transferMouseToCanvas);
   };
 
-  transferMouseToCanvas = () => {
+  // a touch gesture lasts until the last finger is lifted
+  transferMouseToCanvas = (e: PointerEvent) => {
+    this.releaseTouchPoint(e.pointerId);
+    if (this.touchPoints.size) return;
+
     this.handlePointerUp();
     window.removeEventListener("pointermove", this.handlePointerMove);
     window.removeEventListener("pointerup", this.transferMouseToCanvas);
+    window.removeEventListener("pointercancel", this.transferMouseToCanvas);
 
     this.canvas.addEventListener("pointermove", this.handlePointerMove);
     this.canvas.addEventListener("pointerup", this.handlePointerUp);
@@ -167,12 +405,275 @@ class Canvas {
     return this.currentTransform.a;
   }
 
+  // the active floor's layers, each floor remembers which one was active
+  get layers() {
+    return this.activeFloor.layers;
+  }
+
+  get activeLayer() {
+    return this.activeFloor.activeLayer;
+  }
+
+  set activeLayer(layer: MapLayer) {
+    this.activeFloor.activeLayer = layer;
+  }
+
+  // the active layer's state; every edit goes to the active layer
+  get cellData() {
+    return this.activeLayer.cellData;
+  }
+
+  get regionIndex() {
+    return this.activeLayer.regionIndex;
+  }
+
+  get regionMeta() {
+    return this.activeLayer.regionMeta;
+  }
+
+  get regionCells() {
+    return this.activeLayer.regionCells;
+  }
+
+  get nextRegionId() {
+    return this.activeLayer.nextRegionId;
+  }
+
+  set nextRegionId(nextRegionId: number) {
+    this.activeLayer.nextRegionId = nextRegionId;
+  }
+
+  getLayer(layerId: string) {
+    return this.activeFloor.getLayer(layerId);
+  }
+
+  getFloor(floorId: string) {
+    const floor = this.floors.find(({ id }) => id === floorId);
+    if (!floor) throw new Error(`No floor "${floorId}"`);
+    return floor;
+  }
+
+  // routes & selections are drawn on one floor, so they don't carry over
+  setActiveFloor(floorId: string) {
+    const floor = this.getFloor(floorId);
+    if (floor === this.activeFloor) return;
+
+    this.handlePointerUp();
+    this.activeFloor = floor;
+    this.clearCellSelection();
+    this.selectRegion(undefined);
+    this.mouseRegionId = undefined;
+    this.clearRoute();
+    this.clearMeasurement();
+    this.setActiveAnnotation(undefined);
+    this.updatePaintedExtents();
+    this.minimapStale = true;
+    this.regionLabels = undefined;
+    this.shouldRender = true;
+    this.onFloorsChange?.();
+    this.onLayersChange?.();
+    this.onUnderlayChange?.();
+    this.onMapChange?.();
+  }
+
+  // a new floor goes directly above or below the active one
+  addFloor(position: "above" | "below") {
+    const floor = createFloor(this.floors);
+    const index = this.floors.indexOf(this.activeFloor);
+
+    this.floors.splice(position === "above" ? index + 1 : index, 0, floor);
+    this.setActiveFloor(floor.id);
+    return floor;
+  }
+
+  updateFloor(floorId: string, settings: Partial<Omit<FloorSettings, "id">>) {
+    Object.assign(this.getFloor(floorId), settings);
+    this.onFloorsChange?.();
+  }
+
+  /**
+   * Removing a floor takes its connector ends and product placements with it.
+   * It can't be undone, but the other floors' edits stay in the history.
+   */
+  removeFloor(floorId: string) {
+    const floor = this.getFloor(floorId);
+    if (this.floors.length === 1) {
+      throw new Error("A map needs at least one floor");
+    }
+
+    if (floor === this.activeFloor) {
+      const index = this.floors.indexOf(floor);
+      this.setActiveFloor(this.floors[index === 0 ? 1 : index - 1].id);
+    }
+    this.floors = this.floors.filter((other) => other !== floor);
+    this.history.discardFloor(floorId);
+    if (floor.underlay) this.underlayImages.delete(floor.underlay.src);
+
+    this.connectors = this.connectors
+      .map((connector) => ({
+        ...connector,
+        ends: connector.ends.filter((end) => end.floorId !== floorId),
+      }))
+      .filter((connector) => connector.ends.length);
+
+    for (const product of this.products.values()) {
+      if (product.location?.floorId === floorId) {
+        this.products.set(product.sku, { ...product, location: undefined });
+      }
+    }
+
+    this.bookmarks = this.bookmarks.filter(
+      (bookmark) => bookmark.floorId !== floorId
+    );
+    this.annotations = this.annotations.filter(
+      (annotation) => annotation.floorId !== floorId
+    );
+
+    this.shouldRender = true;
+    this.onFloorsChange?.();
+    this.onConnectorsChange?.();
+    this.onProductsChange?.();
+    this.onBookmarksChange?.();
+    this.onAnnotationsChange?.();
+  }
+
+  // remote edits land on locked & hidden layers too, or the replicas diverge
+  get canEditActiveLayer() {
+    if (this.readOnly) return false;
+    return this.isApplyingRemote || this.activeLayer.isEditable;
+  }
+
+  get floorBelow(): MapFloor | undefined {
+    return this.floors[this.floors.indexOf(this.activeFloor) - 1];
+  }
+
+  setShowFloorBelow(showFloorBelow: boolean) {
+    this.showFloorBelow = showFloorBelow;
+    this.shouldRender = true;
+  }
+
+  getAllLayers() {
+    return this.floors.flatMap((floor) => floor.layers);
+  }
+
+  getConnectorAt(cellCoord: GridCellCoord) {
+    const floorId = this.activeFloor.id;
+
+    return this.connectors.find((connector) =>
+      connector.ends.some(
+        (end) =>
+          end.floorId === floorId &&
+          end.row === cellCoord.row &&
+          end.col === cellCoord.col
+      )
+    );
+  }
+
+  /**
+   * Clicking an existing connector makes it the active one. Clicking an empty
+   * cell adds an end to the active connector if it doesn't reach this floor
+   * yet, so a connector is placed by clicking once on each floor it serves;
+   * otherwise a new connector starts there.
+   */
+  placeConnectorEnd(cellCoord: GridCellCoord) {
+    const existing = this.getConnectorAt(cellCoord);
+    const active = this.connectors.find(
+      ({ id }) => id === this.activeConnectorId
+    );
+    const end = { floorId: this.activeFloor.id, ...cellCoord };
+
+    if (existing) {
+      this.activeConnectorId = existing.id;
+    } else if (
+      active &&
+      !active.ends.some(({ floorId }) => floorId === end.floorId)
+    ) {
+      this.connectors = this.connectors.map((connector) =>
+        connector === active
+          ? { ...connector, ends: [...connector.ends, end] }
+          : connector
+      );
+    } else {
+      const connector = {
+        id: createConnectorId(this.connectors),
+        kind: this.connectorKind,
+        ends: [end],
+      };
+      this.connectors = [...this.connectors, connector];
+      this.activeConnectorId = connector.id;
+    }
+
+    this.shouldRender = true;
+    this.onConnectorsChange?.();
+  }
+
+  setActiveConnector(connectorId: string | undefined) {
+    this.activeConnectorId = connectorId;
+    this.shouldRender = true;
+    this.onConnectorsChange?.();
+  }
+
+  setConnectorKind(kind: ConnectorKind) {
+    this.connectorKind = kind;
+    this.onConnectorsChange?.();
+  }
+
+  updateConnector(connectorId: string, update: { kind: ConnectorKind }) {
+    this.connectors = this.connectors.map((connector) =>
+      connector.id === connectorId ? { ...connector, ...update } : connector
+    );
+    this.shouldRender = true;
+    this.onConnectorsChange?.();
+  }
+
+  removeConnector(connectorId: string) {
+    this.connectors = this.connectors.filter(({ id }) => id !== connectorId);
+    if (this.activeConnectorId === connectorId) {
+      this.activeConnectorId = undefined;
+    }
+    this.shouldRender = true;
+    this.onConnectorsChange?.();
+  }
+
+  // "take the stairs": jumps to the connector's end on another floor
+  showConnectorEnd(connectorId: string, floorId: string) {
+    const connector = this.connectors.find(({ id }) => id === connectorId);
+    const end = connector?.ends.find((other) => other.floorId === floorId);
+    if (!connector || !end) return;
+
+    this.setActiveFloor(floorId);
+    this.setActiveConnector(connector.id);
+    this.zoomToCells([end], 6);
+  }
+
+  setActiveLayer(layerId: string) {
+    const layer = this.getLayer(layerId);
+    if (layer === this.activeLayer) return;
+
+    this.handlePointerUp();
+    this.activeLayer = layer;
+    this.clearCellSelection();
+    this.selectRegion(undefined);
+    this.mouseRegionId = undefined;
+    this.shouldRender = true;
+    this.onLayersChange?.();
+  }
+
+  updateLayer(layerId: string, settings: Partial<Omit<LayerSettings, "id">>) {
+    Object.assign(this.getLayer(layerId), settings);
+    this.minimapStale = true;
+    this.regionLabels = undefined;
+    this.shouldRender = true;
+    this.onLayersChange?.();
+    if (settings.visible !== undefined) this.updateRoute();
+  }
+
   paintTestShapes() {
     testShapes.forEach(([row, col, color]) => {
       this.fillStyle = color;
       this.paintCell({
-        row: this.gridOffset + row,
-        col: this.gridOffset + col,
+        row,
+        col,
       });
     });
   }
@@ -191,507 +692,3496 @@ class Canvas {
 
   render() {
     requestAnimationFrame(() => {
+      if (this.isDestroyed) return;
+      if (this.viewAnimation) this.stepViewAnimation();
+      this.emitViewChange();
       if (this.shouldRender) {
         this.clear();
+        this.renderUnderlay();
         this.renderGrid();
         this.renderCells();
-        this.renderCellBorders();
+        this.renderHighlightedRegions();
+        this.renderShapePreview();
+        this.renderCellSelection();
+        this.renderRoute();
+        this.renderConnectors();
+        this.renderRegionLabels();
+        this.renderAnnotations();
+        this.renderCalibration();
+        this.renderMeasurement();
         this.renderHoverCell();
+        this.renderRemoteCursors();
+        this.renderLegend();
+        this.renderMinimap();
         this.shouldRender = false;
       }
       this.render();
     });
   }
 
+  getVisibleCellBounds() {
+    const topLeft = this.canvasToWorld({ x: 0, y: 0 });
+    const bottomRight = this.canvasToWorld({
+      x: this.canvas.width,
+      y: this.canvas.height,
+    });
+
+    return {
+      min: this.worldCoordToCellCoord(topLeft),
+      max: this.worldCoordToCellCoord(bottomRight),
+    };
+  }
+
+  // composites the visible layers bottom to top, over a faint floor below
   renderCells() {
-    const renderedRegionIds = new Set<number>();
+    if (this.showFloorBelow && this.floorBelow) {
+      for (const layer of this.floorBelow.layers) {
+        if (!layer.visible || !layer.opacity) continue;
 
-    this.cellData.forEach((row) => {
-      row.forEach((cell) => {
-        if (renderedRegionIds.has(cell.regionId)) {
-          return;
-        }
+        this.context.globalAlpha = layer.opacity * 0.25;
+        this.renderLayerCells(layer);
+      }
+    }
 
-        renderedRegionIds.add(cell.regionId);
-        this.context.beginPath();
+    for (const layer of this.layers) {
+      if (!layer.visible || !layer.opacity) continue;
 
-        this.floodFill(
-          cell,
-          (currentCell) => currentCell.regionId === cell.regionId,
-          (currentCell) => {
-            const coord = this.cellCoordToWorldCoord(currentCell);
-            this.context.rect(coord.x, coord.y, this.cellSize, this.cellSize);
+      this.context.globalAlpha = layer.opacity;
+      this.renderLayerCells(layer);
+    }
+
+    this.context.globalAlpha = 1;
+  }
+
+  // composites the cached chunks of a layer that are in view
+  renderLayerCells(layer: MapLayer) {
+    const { min, max } = this.getVisibleCellBounds();
+    const from = layer.cache.cellToChunk(min.row, min.col);
+    const to = layer.cache.cellToChunk(max.row, max.col);
+    const chunkCells = layer.cache.chunkCells;
+    const chunkWorldSize = chunkCells * this.cellSize;
+
+    for (let chunkRow = from.chunkRow; chunkRow <= to.chunkRow; chunkRow++) {
+      for (let chunkCol = from.chunkCol; chunkCol <= to.chunkCol; chunkCol++) {
+        const chunk = { chunkRow, chunkCol };
+        if (!layer.cache.knownChunks.has(layer.cache.chunkKey(chunk))) {
+          continue;
+        }
+
+        const origin = this.cellCoordToWorldCoord({
+          row: chunkRow * chunkCells,
+          col: chunkCol * chunkCells,
+        });
+
+        const bitmap = layer.cache.getChunk(
+          chunk,
+          this.currentScale,
+          this.cellSize,
+          (context) => {
+            context.translate(-origin.x, -origin.y);
+            return this.renderChunkCells(context, layer, chunk);
           }
         );
-
-        this.context.fillStyle =
-          this.mouseRegionId === cell.regionId
-            ? tinycolor(cell.fillStyle).lighten(2).toHexString()
-            : cell.fillStyle;
-        this.context.fill();
-        this.context.closePath();
-      });
-    });
+        if (!bitmap) continue;
+
+        this.context.drawImage(
+          bitmap,
+          origin.x,
+          origin.y,
+          chunkWorldSize,
+          chunkWorldSize
+        );
+      }
+    }
   }
 
-  renderCellBorders(lineWidth = 1) {
-    this.cellData.forEach((row) => {
-      row.forEach((cell) => {
-        if (cell.adjacency === 0b1111) return;
+  getChunkCells(layer: MapLayer, { chunkRow, chunkCol }: ChunkCoord) {
+    const chunkCells = layer.cache.chunkCells;
+    const cells: GridCell[] = [];
+
+    for (
+      let row = chunkRow * chunkCells;
+      row < (chunkRow + 1) * chunkCells;
+      row++
+    ) {
+      for (
+        let col = chunkCol * chunkCells;
+        col < (chunkCol + 1) * chunkCells;
+        col++
+      ) {
+        const cell = layer.cellData.get({ row, col });
+        if (cell) cells.push(cell);
+      }
+    }
 
-        this.context.lineWidth =
-          cell.regionId === this.mouseRegionId ? lineWidth * 2 : lineWidth;
+    return cells;
+  }
 
-        this.context.strokeStyle = tinycolor(cell.fillStyle)
-          .darken()
-          .toString();
+  renderChunkCells(context: RenderContext, layer: MapLayer, chunk: ChunkCoord) {
+    const cells = this.getChunkCells(layer, chunk);
+    const cellsByFill = new Map<string, GridCell[]>();
 
-        const worldCoord = this.cellCoordToWorldCoord(cell);
-        const inset = lineWidth / 2;
+    for (const cell of cells) {
+      const list = cellsByFill.get(cell.fillStyle);
+      if (list) list.push(cell);
+      else cellsByFill.set(cell.fillStyle, [cell]);
+    }
 
-        if (!this.isBitSet(cell.adjacency, CardinalBit.North)) {
-          const from = { ...worldCoord, y: worldCoord.y + inset };
-          const to = { ...from, x: from.x + this.cellSize };
-          this.renderLine(from, to);
-        }
-        if (!this.isBitSet(cell.adjacency, CardinalBit.East)) {
-          const from = {
-            ...worldCoord,
-            x: worldCoord.x + this.cellSize - inset,
-          };
-          const to = { ...from, y: from.y + this.cellSize };
-          this.renderLine(from, to);
-        }
-        if (!this.isBitSet(cell.adjacency, CardinalBit.South)) {
-          const from = {
-            ...worldCoord,
-            y: worldCoord.y + this.cellSize - inset,
-          };
-          const to = { ...from, x: from.x + this.cellSize };
-          this.renderLine(from, to);
-        }
-        if (!this.isBitSet(cell.adjacency, CardinalBit.West)) {
-          const from = { ...worldCoord, x: worldCoord.x + inset };
-          const to = { ...from, y: from.y + this.cellSize };
-          this.renderLine(from, to);
-        }
-      });
+    cellsByFill.forEach((fillCells, fillStyle) => {
+      this.fillCells(context, fillCells, fillStyle);
     });
-    this.context.lineWidth = 1;
+
+    this.renderCellBorders(context, cells);
+    return cells.length;
   }
 
-  printCells(props?: Array<keyof GridCell>) {
-    const cells = this.cellData.flat();
+  fillCells(context: RenderContext, cells: GridCell[], fillStyle: string) {
+    context.beginPath();
 
-    if (props) {
-      const mapped = cells.map((c) => {
-        const ret: Record<string, unknown> = {};
-        for (const prop of props) {
-          ret[prop] = c[prop];
-        }
-        return ret;
-      });
-      console.log(mapped);
-    } else {
-      console.log(cells);
+    for (const cell of cells) {
+      const coord = this.cellCoordToWorldCoord(cell);
+      context.rect(coord.x, coord.y, this.cellSize, this.cellSize);
     }
-  }
 
-  renderLine(from: XYCoord, to: XYCoord) {
-    this.context.beginPath();
-    this.context.moveTo(from.x, from.y);
-    this.context.lineTo(to.x, to.y);
-    this.context.stroke();
+    context.fillStyle = fillStyle;
+    context.fill();
   }
 
-  renderGrid() {
-    const worldPan = this.canvasToWorld({ x: 0, y: 0 });
-    const size = this.cellSize;
-    const startX = Math.ceil(worldPan.x / size) * size - size;
-    const startY = Math.ceil(worldPan.y / size) * size - size;
-    const endX = Math.ceil((startX + this.worldWidth) / size) * size + size;
-    const endY = Math.ceil((startY + this.worldHeight) / size) * size + size;
+  // hover & selection are drawn over the cached layer, not baked into it
+  renderHighlightedRegions() {
+    if (!this.activeLayer.visible) return;
 
-    this.context.strokeStyle = "black";
+    const regionIds = new Set([
+      this.mouseRegionId,
+      this.selectedRegionId,
+      ...this.highlightedRegionIds,
+    ]);
 
-    for (let x = startX; x <= endX; x += this.cellSize) {
-      this.context.beginPath();
-      this.context.moveTo(x, startY);
-      this.context.lineTo(x, endY);
-      this.context.stroke();
-    }
+    regionIds.forEach((regionId) => {
+      if (regionId === undefined) return;
+      this.renderHighlightedCells(this.getRegionCells(regionId));
+    });
 
-    for (let y = startY; y <= endY; y += this.cellSize) {
-      this.context.beginPath();
-      this.context.moveTo(startX, y);
-      this.context.lineTo(endX, y);
-      this.context.stroke();
+    const product =
+      this.highlightedProductSku !== undefined &&
+      this.products.get(this.highlightedProductSku);
+    if (product) this.renderHighlightedCells(this.getProductCells(product));
+  }
+
+  renderHighlightedCells(cells: GridCell[]) {
+    if (!cells.length) return;
+
+    const cellsByFill = new Map<string, GridCell[]>();
+    for (const cell of cells) {
+      const list = cellsByFill.get(cell.fillStyle);
+      if (list) list.push(cell);
+      else cellsByFill.set(cell.fillStyle, [cell]);
     }
+
+    cellsByFill.forEach((fillCells, fillStyle) =>
+      this.fillCells(
+        this.context,
+        fillCells,
+        tinycolor(fillStyle).lighten(2).toHexString()
+      )
+    );
+    this.renderCellBorders(this.context, cells, 2);
   }
 
-  renderHoverCell() {
-    if (this.mouseCellCoord) {
-      const worldCoord = this.cellCoordToWorldCoord(this.mouseCellCoord);
+  renderShapePreview() {
+    if (!this.shapePreview.length) return;
 
-      this.context.fillStyle = "rgba(255, 255, 255, .2)";
-      this.context.fillRect(
+    this.context.save();
+    this.context.globalAlpha = 0.6;
+    this.context.beginPath();
+    for (const coord of this.shapePreview) {
+      const worldCoord = this.cellCoordToWorldCoord(coord);
+      this.context.rect(
         worldCoord.x,
         worldCoord.y,
         this.cellSize,
         this.cellSize
       );
     }
+    this.context.fillStyle = this.fillStyle;
+    this.context.fill();
+    this.context.restore();
   }
 
-  viewportToWorld(viewportCoord: XYCoord) {
-    const rect = this.canvas.getBoundingClientRect();
+  renderCellSelection() {
+    const offset = this.moveOffset ?? { row: 0, col: 0 };
 
-    const canvasCoord = {
-      x: viewportCoord.x - rect.x,
-      y: viewportCoord.y - rect.y,
-    };
+    if (this.cellSelection.size) {
+      this.context.beginPath();
+      this.cellSelection.forEach((coord) => {
+        const worldCoord = this.cellCoordToWorldCoord({
+          row: coord.row + offset.row,
+          col: coord.col + offset.col,
+        });
+        this.context.rect(
+          worldCoord.x,
+          worldCoord.y,
+          this.cellSize,
+          this.cellSize
+        );
+      });
+      this.context.fillStyle = "rgba(75, 118, 255, .25)";
+      this.context.fill();
+    }
 
-    return this.canvasToWorld(canvasCoord);
-  }
+    if (this.marqueeStart && this.mouseCellCoord) {
+      const { minRow, minCol, maxRow, maxCol } = getCoordBounds([
+        this.marqueeStart,
+        this.mouseCellCoord,
+      ]);
+      const from = this.cellCoordToWorldCoord({ row: minRow, col: minCol });
+      const to = this.cellCoordToWorldCoord({
+        row: maxRow + 1,
+        col: maxCol + 1,
+      });
 
-  canvasToWorld(canvasCoord: XYCoord) {
-    return {
-      x: (canvasCoord.x - this.panX) / this.currentScale,
-      y: (canvasCoord.y - this.panY) / this.currentScale,
-    };
+      this.context.save();
+      this.context.setLineDash([4 / this.currentScale, 4 / this.currentScale]);
+      this.context.lineWidth = 1 / this.currentScale;
+      this.context.strokeStyle = "black";
+      this.context.strokeRect(from.x, from.y, to.x - from.x, to.y - from.y);
+      this.context.restore();
+    }
   }
 
-  handlePan(e: PointerEvent | React.PointerEvent<HTMLCanvasElement>) {
-    this.context.save();
-    this.context.translate(
-      e.movementX / this.currentScale,
-      e.movementY / this.currentScale
-    );
-    this.currentTransform = this.context.getTransform();
-    this.shouldRender = true;
-  }
+  // cells of a region, cached until the next edit
+  getRegionCells(regionId: number) {
+    const cached = this.regionCells.get(regionId);
+    if (cached) return cached;
 
-  handleWheel = (e: WheelEvent) => {
-    const worldOrigin = this.viewportToWorld({ x: e.clientX, y: e.clientY });
-    const unclampedScaleDelta = (-1 * e.deltaY) / 320;
-    const nextScale = Math.max(
-      this.minScale,
-      Math.min(this.currentScale + unclampedScaleDelta, this.maxScale)
-    );
-    const scaleFactor = nextScale / this.currentScale;
+    const cells: GridCell[] = [];
+    const anchor = this.findRegionCell(regionId);
 
-    this.context.translate(worldOrigin.x, worldOrigin.y);
-    this.context.scale(scaleFactor, scaleFactor);
-    this.context.translate(-worldOrigin.x, -worldOrigin.y);
-    this.currentTransform = this.context.getTransform();
-    this.worldHeight = this.clientRect.height / this.currentScale;
-    this.worldWidth = this.clientRect.width / this.currentScale;
-    this.shouldRender = true;
-  };
+    if (anchor) {
+      this.floodFill(
+        anchor,
+        (cell) => this.getRegionId(cell) === regionId,
+        (cell) => cells.push(cell)
+      );
+    }
 
-  // NESW
-  getCellNeighbors(cellCoord: GridCellCoord) {
-    return {
-      north: this.cellData[cellCoord.row - 1]?.[cellCoord.col],
-      east: this.cellData[cellCoord.row]?.[cellCoord.col + 1],
-      south: this.cellData[cellCoord.row + 1]?.[cellCoord.col],
-      west: this.cellData[cellCoord.row]?.[cellCoord.col - 1],
-    };
+    this.regionCells.set(regionId, cells);
+    return cells;
   }
 
-  cellsAreSameType(cellA: GridCell, cellB: GridCell) {
-    return cellA.fillStyle === cellB.fillStyle;
+  findRegionCell(regionId: number) {
+    const mouseCell = this.mouseCellCoord && this.getCell(this.mouseCellCoord);
+    if (mouseCell && this.getRegionId(mouseCell) === regionId) {
+      return mouseCell;
+    }
+
+    return this.cellData.find((cell) => this.getRegionId(cell) === regionId);
   }
 
-  makeAdjacencyMask(neighbors: CellNeighbors) {
-    let mask = 0b0000;
+  invalidateCell(coord: GridCellCoord) {
+    this.activeLayer.cache.invalidateCell(coord.row, coord.col);
+    this.regionCells.clear();
+  }
 
-    if (neighbors.north?.fillStyle === this.fillStyle) {
-      mask = this.setMaskBit(mask, CardinalBit.North);
-    }
+  renderCellBorders(context: RenderContext, cells: GridCell[], lineWidth = 1) {
+    context.lineWidth = lineWidth;
 
-    if (neighbors.east?.fillStyle === this.fillStyle) {
-      mask = this.setMaskBit(mask, CardinalBit.East);
+    for (const cell of cells) {
+      if (cell.adjacency === 0b1111) continue;
+
+      context.strokeStyle = tinycolor(cell.fillStyle).darken().toString();
+
+      const worldCoord = this.cellCoordToWorldCoord(cell);
+      const inset = lineWidth / 2;
+
+      if (!this.isBitSet(cell.adjacency, CardinalBit.North)) {
+        const from = { ...worldCoord, y: worldCoord.y + inset };
+        const to = { ...from, x: from.x + this.cellSize };
+        this.renderLine(from, to, context);
+      }
+      if (!this.isBitSet(cell.adjacency, CardinalBit.East)) {
+        const from = {
+          ...worldCoord,
+          x: worldCoord.x + this.cellSize - inset,
+        };
+        const to = { ...from, y: from.y + this.cellSize };
+        this.renderLine(from, to, context);
+      }
+      if (!this.isBitSet(cell.adjacency, CardinalBit.South)) {
+        const from = {
+          ...worldCoord,
+          y: worldCoord.y + this.cellSize - inset,
+        };
+        const to = { ...from, x: from.x + this.cellSize };
+        this.renderLine(from, to, context);
+      }
+      if (!this.isBitSet(cell.adjacency, CardinalBit.West)) {
+        const from = { ...worldCoord, x: worldCoord.x + inset };
+        const to = { ...from, y: from.y + this.cellSize };
+        this.renderLine(from, to, context);
+      }
+    }
+
+    context.lineWidth = 1;
+  }
+
+  // painted cells at a product's location, on the active floor & layer
+  getProductCells(product: Product) {
+    const { location } = product;
+    if (
+      !location ||
+      location.floorId !== this.activeFloor.id ||
+      location.layerId !== this.activeLayer.id
+    ) {
+      return [];
+    }
+
+    if (isRegionLocation(location)) {
+      // region ids are union-find labels, so merged regions still resolve
+      return this.getRegionCells(this.regionIndex.find(location.regionId));
+    }
+
+    return location.cells
+      .map((coord) => this.getCell(coord))
+      .filter((cell): cell is GridCell => !!cell);
+  }
+
+  // merged by SKU; a re-imported product keeps its placement
+  importProducts(products: Product[]) {
+    for (const product of products) {
+      const existing = this.products.get(product.sku);
+      this.products.set(product.sku, {
+        ...product,
+        location: product.location ?? existing?.location,
+      });
+    }
+
+    this.onProductsChange?.();
+  }
+
+  // the cell selection if there is one, otherwise the selected region
+  getSelectionLocation(): ProductLocation | undefined {
+    const floorId = this.activeFloor.id;
+    const layerId = this.activeLayer.id;
+
+    if (this.cellSelection.size) {
+      return { floorId, layerId, cells: [...this.cellSelection.values()] };
+    }
+    if (this.selectedRegionId !== undefined) {
+      return { floorId, layerId, regionId: this.selectedRegionId };
+    }
+  }
+
+  setProductLocation(sku: string, location: ProductLocation | undefined) {
+    const product = this.products.get(sku);
+    if (!product) return;
+
+    this.products.set(sku, { ...product, location });
+    this.shouldRender = true;
+    this.onProductsChange?.();
+  }
+
+  // "where is it": jumps to the product's floor & layer and frames its cells
+  showProduct(sku: string | undefined) {
+    const product = sku === undefined ? undefined : this.products.get(sku);
+    this.highlightedProductSku = product?.sku;
+    this.shouldRender = true;
+
+    if (!product?.location) return;
+
+    this.setActiveFloor(product.location.floorId);
+    this.setActiveLayer(product.location.layerId);
+    if (!this.activeLayer.visible) {
+      this.updateLayer(this.activeLayer.id, { visible: true });
+    }
+
+    this.zoomToCells(this.getProductCells(product));
+  }
+
+  // blocked if any visible layer has a blocking cell there
+  isWalkable(cellCoord: GridCellCoord) {
+    const { blockedFills, blockedCategories, walkEmpty } = this.routeRules;
+    let isPainted = false;
+
+    for (const layer of this.layers) {
+      if (!layer.visible) continue;
+
+      const cell = layer.cellData.get(cellCoord);
+      if (!cell) continue;
+      isPainted = true;
+
+      if (blockedFills.includes(cell.fillStyle)) return false;
+
+      // a region's own category wins over its paint's
+      const category =
+        layer.regionMeta.get(layer.getRegionId(cell))?.category ??
+        findPaletteEntry(this.palette, cell.fillStyle)?.category;
+      if (category && blockedCategories.includes(category)) return false;
+    }
+
+    return isPainted || walkEmpty;
+  }
+
+  // painted area of all visible layers, plus a ring of cells to walk around it
+  getRouteBounds(...include: GridCellCoord[]): CellBounds {
+    const cells = this.layers.flatMap((layer) =>
+      layer.visible ? layer.cellData.toArray() : []
+    );
+    const bounds = getCoordBounds([...cells, ...include]);
+
+    return {
+      minRow: bounds.minRow - 1,
+      minCol: bounds.minCol - 1,
+      maxRow: bounds.maxRow + 1,
+      maxCol: bounds.maxCol + 1,
+    };
+  }
+
+  // the route follows the map as it's edited
+  updateRoute() {
+    const { routeStart, routeEnd } = this;
+    if (!routeStart) return;
+
+    this.route =
+      routeEnd &&
+      findPath(
+        routeStart,
+        routeEnd,
+        (coord) => this.isWalkable(coord),
+        this.getRouteBounds(routeStart, routeEnd)
+      );
+    this.updatePickRoute();
+    this.shouldRender = true;
+    this.onRouteChange?.(this.route);
+  }
+
+  // a pick round without a target cell ends back at the start
+  updatePickRoute() {
+    const { routeStart, pickTargets } = this;
+    const routeEnd = this.routeEnd ?? routeStart;
+
+    this.pickRoute =
+      routeStart && routeEnd && pickTargets.length
+        ? planPickRoute(
+            routeStart,
+            routeEnd,
+            pickTargets,
+            (coord) => this.isWalkable(coord),
+            this.getRouteBounds(
+              routeStart,
+              routeEnd,
+              ...pickTargets.flatMap(({ cells }) => cells)
+            )
+          )
+        : undefined;
+    this.shouldRender = true;
+    this.onPickRouteChange?.(this.pickRoute);
+  }
+
+  setPickTargets(targets: PickTarget[]) {
+    this.pickTargets = targets;
+    this.updatePickRoute();
+  }
+
+  // cells at a location on any floor & layer, painted or not
+  getLocationCells(location: ProductLocation): GridCellCoord[] {
+    if (!isRegionLocation(location)) return location.cells;
+
+    const layer = this.getFloor(location.floorId).getLayer(location.layerId);
+    const regionId = layer.regionIndex.find(location.regionId);
+
+    return layer.cellData
+      .toArray()
+      .filter((cell) => layer.getRegionId(cell) === regionId)
+      .map((cell) => this.getCellCoord(cell));
+  }
+
+  // products placed on the active floor become targets; the SKUs that can't
+  // be found there are returned
+  getProductPickTargets(skus: string[]) {
+    const targets: PickTarget[] = [];
+    const missing: string[] = [];
+
+    for (const sku of skus) {
+      const product = this.products.get(sku);
+      if (product?.location?.floorId !== this.activeFloor.id) {
+        missing.push(sku);
+        continue;
+      }
+
+      targets.push({
+        label: product.name || product.sku,
+        cells: this.getLocationCells(product.location),
+      });
+    }
+
+    return { targets, missing };
+  }
+
+  // first click picks the start, the second the target, the third starts over
+  setRoutePoint(cellCoord: GridCellCoord) {
+    if (!this.routeStart || this.routeEnd) {
+      this.routeStart = cellCoord;
+      this.routeEnd = undefined;
+      this.route = undefined;
+      this.updatePickRoute();
+      this.onRouteChange?.(undefined);
+      return;
+    }
+
+    this.routeEnd = cellCoord;
+    this.updateRoute();
+  }
+
+  setRouteRules(rules: RouteRules) {
+    this.routeRules = rules;
+    this.updateRoute();
+  }
+
+  clearRoute() {
+    this.routeStart = undefined;
+    this.routeEnd = undefined;
+    this.route = undefined;
+    this.updatePickRoute();
+    this.onRouteChange?.(undefined);
+  }
+
+  // statistics of the active layer's regions
+  getMapStats() {
+    return computeMapStats(
+      this.cellData.toArray(),
+      (cell) => this.getRegionId(cell),
+      this.regionMeta
+    );
+  }
+
+  printCells(props?: Array<keyof GridCell>) {
+    const cells = this.cellData.toArray();
+
+    if (props) {
+      const mapped = cells.map((c) => {
+        const ret: Record<string, unknown> = {};
+        for (const prop of props) {
+          ret[prop] = c[prop];
+        }
+        return ret;
+      });
+      console.log(mapped);
+    } else {
+      console.log(cells);
+    }
+  }
+
+  renderLine(
+    from: XYCoord,
+    to: XYCoord,
+    context: RenderContext = this.context
+  ) {
+    context.beginPath();
+    context.moveTo(from.x, from.y);
+    context.lineTo(to.x, to.y);
+    context.stroke();
+  }
+
+  renderGrid() {
+    const worldPan = this.canvasToWorld({ x: 0, y: 0 });
+    const size = this.cellSize;
+    const startX = Math.ceil(worldPan.x / size) * size - size;
+    const startY = Math.ceil(worldPan.y / size) * size - size;
+    const endX = Math.ceil((startX + this.worldWidth) / size) * size + size;
+    const endY = Math.ceil((startY + this.worldHeight) / size) * size + size;
+
+    this.context.strokeStyle = "black";
+    this.context.beginPath();
+
+    for (let x = startX; x <= endX; x += this.cellSize) {
+      this.context.moveTo(x, startY);
+      this.context.lineTo(x, endY);
+    }
+
+    for (let y = startY; y <= endY; y += this.cellSize) {
+      this.context.moveTo(startX, y);
+      this.context.lineTo(endX, y);
+    }
+
+    this.context.stroke();
+  }
+
+  getCellCenter(cellCoord: GridCellCoord) {
+    const worldCoord = this.cellCoordToWorldCoord(cellCoord);
+    return {
+      x: worldCoord.x + this.cellSize / 2,
+      y: worldCoord.y + this.cellSize / 2,
+    };
+  }
+
+  renderPath(path: GridCellCoord[], strokeStyle: string) {
+    if (path.length < 2) return;
+
+    const context = this.context;
+    context.beginPath();
+    path.forEach((coord, i) => {
+      const { x, y } = this.getCellCenter(coord);
+      if (i === 0) context.moveTo(x, y);
+      else context.lineTo(x, y);
+    });
+    context.lineWidth = 3;
+    context.lineJoin = "round";
+    context.strokeStyle = strokeStyle;
+    context.stroke();
+  }
+
+  // a planned pick round replaces the plain route
+  renderRoute() {
+    const context = this.context;
+    context.save();
+
+    if (this.pickRoute) {
+      this.renderPath(this.pickRoute.path, "rgba(120, 60, 160, .85)");
+      this.renderPickStops(this.pickRoute);
+    } else if (this.route) {
+      this.renderPath(this.route, "rgba(20, 110, 60, .85)");
+    }
+
+    for (const [coord, color] of [
+      [this.routeStart, "seagreen"],
+      [this.routeEnd, this.route ? "seagreen" : "crimson"],
+    ] as const) {
+      if (!coord) continue;
+
+      const { x, y } = this.getCellCenter(coord);
+      context.beginPath();
+      context.arc(x, y, this.cellSize / 3, 0, Math.PI * 2);
+      context.fillStyle = color;
+      context.fill();
+    }
+
+    context.restore();
+  }
+
+  renderPickStops(pickRoute: PickRoute) {
+    const context = this.context;
+    const radius = this.cellSize / 2.5;
+
+    context.font = `bold ${Math.round(this.cellSize * 0.5)}px sans-serif`;
+    context.textAlign = "center";
+    context.textBaseline = "middle";
+
+    pickRoute.stops.forEach(({ coord }, i) => {
+      const { x, y } = this.getCellCenter(coord);
+
+      context.beginPath();
+      context.arc(x, y, radius, 0, Math.PI * 2);
+      context.fillStyle = "rebeccapurple";
+      context.fill();
+      context.fillStyle = "white";
+      context.fillText(String(i + 1), x, y);
+    });
+  }
+
+  // the ends on the active floor; the active connector is outlined
+  renderConnectors() {
+    const context = this.context;
+    const floorId = this.activeFloor.id;
+    const inset = this.cellSize / 8;
+    const size = this.cellSize - inset * 2;
+
+    context.save();
+    context.font = `bold ${Math.round(this.cellSize * 0.6)}px sans-serif`;
+    context.textAlign = "center";
+    context.textBaseline = "middle";
+
+    for (const connector of this.connectors) {
+      for (const end of connector.ends) {
+        if (end.floorId !== floorId) continue;
+
+        const { x, y } = this.cellCoordToWorldCoord(end);
+        const center = this.getCellCenter(end);
+
+        context.fillStyle = "rgba(40, 40, 40, .85)";
+        context.fillRect(x + inset, y + inset, size, size);
+        context.fillStyle = "white";
+        context.fillText(connectorGlyphs[connector.kind], center.x, center.y);
+
+        if (connector.id === this.activeConnectorId) {
+          context.lineWidth = 2;
+          context.strokeStyle = "orange";
+          context.strokeRect(x + inset, y + inset, size, size);
+        }
+      }
+    }
+
+    context.restore();
+  }
+
+  // the other clients' pointers on this floor, a fixed size at any zoom
+  renderRemoteCursors() {
+    const context = this.context;
+
+    context.save();
+    context.setTransform(1, 0, 0, 1, 0, 0);
+    context.font = "11px sans-serif";
+    context.textBaseline = "top";
+
+    for (const {
+      floorId,
+      position,
+      name,
+      color,
+    } of this.remoteCursors.values()) {
+      if (floorId !== this.activeFloor.id || !position) continue;
+
+      const { x, y } = this.currentTransform.transformPoint(position);
+
+      context.beginPath();
+      context.moveTo(x, y);
+      context.lineTo(x, y + 14);
+      context.lineTo(x + 10, y + 10);
+      context.closePath();
+      context.fillStyle = color;
+      context.fill();
+
+      const width = context.measureText(name).width + 6;
+      context.fillRect(x + 8, y + 14, width, 15);
+      context.fillStyle = "white";
+      context.fillText(name, x + 11, y + 16);
+    }
+
+    context.restore();
+  }
+
+  // drawn in screen space, so it stays put while panning & zooming
+  renderLegend() {
+    if (!this.showLegend || !this.palette.length) return;
+
+    const context = this.context;
+    const rowHeight = 18;
+    const padding = 8;
+    const labels = this.palette.map(({ name, category }) =>
+      category ? `${name} (${category})` : name
+    );
+
+    context.save();
+    context.setTransform(1, 0, 0, 1, 0, 0);
+    context.font = "12px sans-serif";
+    context.textBaseline = "middle";
+
+    const width =
+      Math.max(...labels.map((label) => context.measureText(label).width)) +
+      padding * 3 +
+      12;
+    const height = this.palette.length * rowHeight + padding * 2;
+
+    context.fillStyle = "rgba(255, 255, 255, .9)";
+    context.fillRect(padding, padding, width, height);
+    context.strokeStyle = "#ccc";
+    context.strokeRect(padding, padding, width, height);
+
+    this.palette.forEach(({ color }, i) => {
+      const y = padding * 2 + i * rowHeight;
+
+      context.fillStyle = color;
+      context.fillRect(padding * 2, y + 3, 12, 12);
+      context.fillStyle = "black";
+      context.fillText(labels[i], padding * 3 + 12, y + rowHeight / 2);
+    });
+
+    context.restore();
+  }
+
+  getMinimapLayout(): MinimapLayout | undefined {
+    const { minPaintedCoord: min, maxPaintedCoord: max } = this;
+    if (!this.showMinimap || !min || !max) return;
+
+    const padding = this.cellSize * 2;
+    return getMinimapLayout(
+      { x: min.x - padding, y: min.y - padding },
+      { x: max.x + padding, y: max.y + padding },
+      this.canvas
+    );
+  }
+
+  // only redrawn when the map changed, panning just moves the view box
+  getMinimapImage(layout: MinimapLayout) {
+    if (this.minimapImage && !this.minimapStale) return this.minimapImage;
+
+    const image = new OffscreenCanvas(
+      Math.ceil(layout.width),
+      Math.ceil(layout.height)
+    );
+    const context = image.getContext("2d");
+    if (!context) throw new Error("Couldn't initialize minimap context");
+
+    context.scale(layout.scale, layout.scale);
+    context.translate(-layout.worldOrigin.x, -layout.worldOrigin.y);
+
+    for (const layer of this.layers) {
+      if (!layer.visible || !layer.opacity) continue;
+
+      const cellsByFill = new Map<string, GridCell[]>();
+      for (const cell of layer.cellData) {
+        const list = cellsByFill.get(cell.fillStyle);
+        if (list) list.push(cell);
+        else cellsByFill.set(cell.fillStyle, [cell]);
+      }
+
+      context.globalAlpha = layer.opacity;
+      cellsByFill.forEach((cells, fillStyle) =>
+        this.fillCells(context, cells, fillStyle)
+      );
+    }
+
+    this.minimapImage = image;
+    this.minimapStale = false;
+    return image;
+  }
+
+  // the active floor's painted cells with the part in view boxed
+  renderMinimap() {
+    const layout = this.getMinimapLayout();
+    if (!layout) return;
+
+    const context = this.context;
+    const { x, y, width, height } = layout;
+    const viewMin = worldToMinimap(layout, this.canvasToWorld({ x: 0, y: 0 }));
+    const viewMax = worldToMinimap(
+      layout,
+      this.canvasToWorld({ x: this.canvas.width, y: this.canvas.height })
+    );
+
+    context.save();
+    context.setTransform(1, 0, 0, 1, 0, 0);
+
+    context.fillStyle = "rgba(255, 255, 255, .9)";
+    context.fillRect(x, y, width, height);
+    context.drawImage(this.getMinimapImage(layout), x, y, width, height);
+    context.strokeStyle = "#ccc";
+    context.strokeRect(x, y, width, height);
+
+    context.beginPath();
+    context.rect(x, y, width, height);
+    context.clip();
+    context.lineWidth = 1.5;
+    context.strokeStyle = "#1971c2";
+    context.strokeRect(
+      viewMin.x,
+      viewMin.y,
+      viewMax.x - viewMin.x,
+      viewMax.y - viewMin.y
+    );
+
+    context.restore();
+  }
+
+  getUnderlayImage(src: string) {
+    let image = this.underlayImages.get(src);
+
+    if (!image) {
+      image = new Image();
+      image.onload = () => (this.shouldRender = true);
+      image.src = src;
+      this.underlayImages.set(src, image);
+    }
+
+    return image;
+  }
+
+  // the active floor's floor plan, under the grid
+  renderUnderlay() {
+    const underlay = this.activeFloor.underlay;
+    if (!underlay || !underlay.opacity) return;
+
+    const image = this.getUnderlayImage(underlay.src);
+    if (!image.complete || !image.naturalWidth) return;
+
+    const width = image.naturalWidth * underlay.scale;
+    const height = image.naturalHeight * underlay.scale;
+    const context = this.context;
+
+    context.save();
+    context.globalAlpha = underlay.opacity;
+    context.translate(underlay.x + width / 2, underlay.y + height / 2);
+    context.rotate((underlay.rotation * Math.PI) / 180);
+    context.drawImage(image, -width / 2, -height / 2, width, height);
+    context.restore();
+  }
+
+  renderCalibration() {
+    const [from, to] = this.calibrationPoints;
+    if (!from) return;
+
+    const context = this.context;
+    const radius = 4 / this.currentScale;
+
+    context.save();
+    context.strokeStyle = "#e8590c";
+    context.fillStyle = "#e8590c";
+    context.lineWidth = 2 / this.currentScale;
+    if (to) this.renderLine(from, to);
+
+    for (const { x, y } of this.calibrationPoints) {
+      context.beginPath();
+      context.arc(x, y, radius, 0, Math.PI * 2);
+      context.fill();
+    }
+
+    context.restore();
+  }
+
+  getRegionLabels() {
+    if (this.regionLabels) return this.regionLabels;
+
+    const context = this.context;
+    context.save();
+    context.font = "100px sans-serif";
+
+    this.regionLabels = this.layers.flatMap((layer) => {
+      if (!layer.visible || !layer.opacity) return [];
+
+      const names = new Map<number, string>();
+      layer.regionMeta.forEach(({ name }, regionId) => {
+        if (name.trim()) names.set(regionId, name.trim());
+      });
+      if (!names.size) return [];
+
+      const cellsByRegion = new Map<number, GridCell[]>();
+      for (const cell of layer.cellData) {
+        const regionId = layer.getRegionId(cell);
+        if (!names.has(regionId)) continue;
+
+        const list = cellsByRegion.get(regionId);
+        if (list) list.push(cell);
+        else cellsByRegion.set(regionId, [cell]);
+      }
+
+      return [...cellsByRegion].map(([regionId, cells]) => {
+        const text = names.get(regionId) ?? "";
+        return {
+          ...findLabelSpot(cells),
+          text,
+          textWidth: context.measureText(text).width / 100,
+        };
+      });
+    });
+
+    context.restore();
+    return this.regionLabels;
+  }
+
+  /**
+   * Region names, as big as fits the region's largest square, up to a limit.
+   * They zoom with the map and are hidden once too small to read.
+   */
+  renderRegionLabels() {
+    if (!this.showRegionLabels) return;
+
+    const context = this.context;
+    context.save();
+    context.textAlign = "center";
+    context.textBaseline = "middle";
+    context.lineJoin = "round";
+
+    for (const label of this.getRegionLabels()) {
+      const size = Math.min(
+        MAX_REGION_LABEL_CELLS * this.cellSize,
+        label.height * this.cellSize * 0.8,
+        (label.width * this.cellSize * 0.9) / label.textWidth
+      );
+      if (size * this.currentScale < MIN_LABEL_PX) continue;
+
+      const { x, y } = this.getCellCenter(label);
+      context.font = `${size}px sans-serif`;
+      this.renderHaloText(label.text, x, y, size);
+    }
+
+    context.restore();
+  }
+
+  // white outlined text, readable over any fill
+  renderHaloText(text: string, x: number, y: number, size: number) {
+    const context = this.context;
+
+    context.lineWidth = size / 5;
+    context.strokeStyle = "rgba(255, 255, 255, .85)";
+    context.strokeText(text, x, y);
+    context.fillStyle = "rgba(20, 20, 20, .9)";
+    context.fillText(text, x, y);
+  }
+
+  getFloorAnnotations() {
+    return this.annotations.filter(
+      ({ floorId }) => floorId === this.activeFloor.id
+    );
+  }
+
+  // the world rectangle an annotation's text covers
+  getAnnotationBounds(annotation: Annotation) {
+    const context = this.context;
+    const size = annotation.size * this.cellSize;
+
+    context.save();
+    context.font = `${size}px sans-serif`;
+    const width = context.measureText(getAnnotationText(annotation)).width;
+    context.restore();
+
+    return {
+      x: annotation.x - width / 2,
+      y: annotation.y - size / 2,
+      width,
+      height: size,
+    };
+  }
+
+  renderAnnotations() {
+    const context = this.context;
+    context.save();
+    context.textAlign = "center";
+    context.textBaseline = "middle";
+    context.lineJoin = "round";
+
+    for (const annotation of this.getFloorAnnotations()) {
+      const size = annotation.size * this.cellSize;
+      const isActive = annotation.id === this.activeAnnotationId;
+      // the one being edited stays visible at any zoom
+      if (!isActive && size * this.currentScale < MIN_LABEL_PX) continue;
+
+      context.font = `${size}px sans-serif`;
+      this.renderHaloText(
+        getAnnotationText(annotation),
+        annotation.x,
+        annotation.y,
+        size
+      );
+
+      if (isActive) {
+        const bounds = this.getAnnotationBounds(annotation);
+        const padding = 3 / this.currentScale;
+
+        context.lineWidth = 1.5 / this.currentScale;
+        context.strokeStyle = "orange";
+        context.setLineDash([4 / this.currentScale, 3 / this.currentScale]);
+        context.strokeRect(
+          bounds.x - padding,
+          bounds.y - padding,
+          bounds.width + padding * 2,
+          bounds.height + padding * 2
+        );
+        context.setLineDash([]);
+      }
+    }
+
+    context.restore();
+  }
+
+  // the ruler & walking route in the world, the label at a fixed size
+  renderMeasurement() {
+    const measurement = this.measurement;
+    if (!measurement) return;
+
+    const context = this.context;
+    const { from, to, path } = measurement;
+
+    context.save();
+    if (path) this.renderPath(path, "rgba(25, 113, 194, .35)");
+
+    context.strokeStyle = "#1971c2";
+    context.fillStyle = "#1971c2";
+    context.lineWidth = 2 / this.currentScale;
+    context.setLineDash([6 / this.currentScale, 4 / this.currentScale]);
+    this.renderLine(from, to);
+    context.setLineDash([]);
+
+    for (const { x, y } of [from, to]) {
+      context.beginPath();
+      context.arc(x, y, 3 / this.currentScale, 0, Math.PI * 2);
+      context.fill();
+    }
+
+    const distances = getMeasureDistances(measurement, this.cellSize);
+    const format = (cells: number) =>
+      formatLength(cells, this.mapScale, this.measureUnit);
+    const lines = [
+      format(distances.straight),
+      `Manhattan ${format(distances.manhattan)}`,
+      distances.walking === undefined
+        ? "No walking path"
+        : `Walking ${format(distances.walking)}`,
+    ];
+    const { x, y } = this.currentTransform.transformPoint(to);
+    const lineHeight = 15;
+
+    context.setTransform(1, 0, 0, 1, 0, 0);
+    context.font = "12px sans-serif";
+    context.textBaseline = "top";
+
+    const width =
+      Math.max(...lines.map((line) => context.measureText(line).width)) + 8;
+    context.fillStyle = "rgba(255, 255, 255, .9)";
+    context.fillRect(x + 8, y + 8, width, lines.length * lineHeight + 6);
+    context.fillStyle = "black";
+    lines.forEach((line, i) =>
+      context.fillText(line, x + 12, y + 11 + i * lineHeight)
+    );
+
+    context.restore();
+  }
+
+  renderHoverCell() {
+    if (this.mouseCellCoord && !this.readOnly) {
+      const worldCoord = this.cellCoordToWorldCoord(this.mouseCellCoord);
+
+      this.context.fillStyle = "rgba(255, 255, 255, .2)";
+      this.context.fillRect(
+        worldCoord.x,
+        worldCoord.y,
+        this.cellSize,
+        this.cellSize
+      );
+    }
+  }
+
+  viewportToWorld(viewportCoord: XYCoord) {
+    const rect = this.canvas.getBoundingClientRect();
+
+    const canvasCoord = {
+      x: viewportCoord.x - rect.x,
+      y: viewportCoord.y - rect.y,
+    };
+
+    return this.canvasToWorld(canvasCoord);
+  }
+
+  canvasToWorld(canvasCoord: XYCoord) {
+    return {
+      x: (canvasCoord.x - this.panX) / this.currentScale,
+      y: (canvasCoord.y - this.panY) / this.currentScale,
+    };
+  }
+
+  handlePan(e: PointerEvent | React.PointerEvent<HTMLCanvasElement>) {
+    this.panBy(e.movementX, e.movementY);
+  }
+
+  // by a distance in css pixels
+  panBy(dx: number, dy: number) {
+    this.viewAnimation = undefined;
+    this.currentTransform = this.currentTransform.translate(
+      dx / this.currentScale,
+      dy / this.currentScale
+    );
+    this.context.setTransform(this.currentTransform);
+    this.shouldRender = true;
+  }
+
+  // keeps the world point under the viewport coordinate in place
+  zoomAt(viewportCoord: XYCoord, unclampedScale: number) {
+    this.viewAnimation = undefined;
+    const worldOrigin = this.viewportToWorld(viewportCoord);
+    const nextScale = Math.max(
+      this.minScale,
+      Math.min(unclampedScale, this.maxScale)
+    );
+    const scaleFactor = nextScale / this.currentScale;
+
+    this.context.translate(worldOrigin.x, worldOrigin.y);
+    this.context.scale(scaleFactor, scaleFactor);
+    this.context.translate(-worldOrigin.x, -worldOrigin.y);
+    this.currentTransform = this.context.getTransform();
+    this.worldHeight = this.clientRect.height / this.currentScale;
+    this.worldWidth = this.clientRect.width / this.currentScale;
+    this.shouldRender = true;
+  }
+
+  setViewTransform(transform: DOMMatrix) {
+    this.currentTransform = transform;
+    this.context.setTransform(this.currentTransform);
+    this.worldHeight = this.clientRect.height / this.currentScale;
+    this.worldWidth = this.clientRect.width / this.currentScale;
+    this.shouldRender = true;
+  }
+
+  // eases from the current view to another, see interpolateView
+  animateViewTransform(transform: DOMMatrix) {
+    this.viewAnimation = {
+      from: this.currentTransform,
+      to: transform,
+      start: performance.now(),
+    };
+    this.shouldRender = true;
+  }
+
+  stepViewAnimation() {
+    if (!this.viewAnimation) return;
+
+    const { from, to, start } = this.viewAnimation;
+    const t = Math.min(1, (performance.now() - start) / VIEW_ANIMATION_MS);
+    const center = { x: this.canvas.width / 2, y: this.canvas.height / 2 };
+
+    this.setViewTransform(new DOMMatrix(interpolateView(from, to, t, center)));
+    if (t === 1) this.viewAnimation = undefined;
+  }
+
+  centerViewOn(worldCoord: XYCoord) {
+    this.panBy(
+      this.canvas.width / 2 - (worldCoord.x * this.currentScale + this.panX),
+      this.canvas.height / 2 - (worldCoord.y * this.currentScale + this.panY)
+    );
+  }
+
+  // pans & zooms so the cells fill the view, within the usual scale limits
+  zoomToCells(cellCoords: GridCellCoord[], paddingCells = 2) {
+    if (!cellCoords.length) return;
+
+    const { minRow, minCol, maxRow, maxCol } = getCoordBounds(cellCoords);
+    this.zoomToWorldBounds(
+      this.cellCoordToWorldCoord({
+        row: minRow - paddingCells,
+        col: minCol - paddingCells,
+      }),
+      this.cellCoordToWorldCoord({
+        row: maxRow + 1 + paddingCells,
+        col: maxCol + 1 + paddingCells,
+      })
+    );
+  }
+
+  // everything painted on the active floor
+  zoomToFit() {
+    const { minPaintedCoord: min, maxPaintedCoord: max } = this;
+    if (!min || !max) return;
+
+    const padding = this.cellSize * 2;
+    this.zoomToWorldBounds(
+      { x: min.x - padding, y: min.y - padding },
+      { x: max.x + padding, y: max.y + padding }
+    );
+  }
+
+  zoomToRegion(regionId: number) {
+    this.zoomToCells(this.getRegionCells(regionId));
+  }
+
+  zoomToWorldBounds(topLeft: XYCoord, bottomRight: XYCoord) {
+    const width = bottomRight.x - topLeft.x;
+    const height = bottomRight.y - topLeft.y;
+
+    const scale = Math.max(
+      this.minScale,
+      Math.min(
+        this.canvas.width / width,
+        this.canvas.height / height,
+        this.maxScale
+      )
+    );
+    const centerX = topLeft.x + width / 2;
+    const centerY = topLeft.y + height / 2;
+
+    this.animateViewTransform(
+      new DOMMatrix([
+        scale,
+        0,
+        0,
+        scale,
+        this.canvas.width / 2 - centerX * scale,
+        this.canvas.height / 2 - centerY * scale,
+      ])
+    );
+  }
+
+  // bookmarks belong to a floor, going to one switches to it
+  addBookmark(name: string) {
+    const bookmark: ViewBookmark = {
+      id: createBookmarkId(this.bookmarks),
+      name,
+      floorId: this.activeFloor.id,
+      view: viewComponents(this.viewAnimation?.to ?? this.currentTransform),
+    };
+    this.bookmarks = [...this.bookmarks, bookmark];
+    this.onBookmarksChange?.();
+    return bookmark;
+  }
+
+  goToBookmark(bookmarkId: string) {
+    const bookmark = this.bookmarks.find(({ id }) => id === bookmarkId);
+    if (!bookmark) return;
+
+    this.setActiveFloor(bookmark.floorId);
+    this.animateViewTransform(new DOMMatrix(bookmark.view));
+  }
+
+  removeBookmark(bookmarkId: string) {
+    this.bookmarks = this.bookmarks.filter(({ id }) => id !== bookmarkId);
+    this.onBookmarksChange?.();
+  }
+
+  setShowMinimap(showMinimap: boolean) {
+    this.showMinimap = showMinimap;
+    this.shouldRender = true;
+  }
+
+  // the minimap point under the pointer, in world coordinates
+  getMinimapWorldCoord(viewportCoord: XYCoord) {
+    const layout = this.getMinimapLayout();
+    const rect = this.canvas.getBoundingClientRect();
+    const canvasCoord = {
+      x: viewportCoord.x - rect.x,
+      y: viewportCoord.y - rect.y,
+    };
+    if (!layout || !isInMinimap(layout, canvasCoord)) return;
+
+    return minimapToWorld(layout, canvasCoord);
+  }
+
+  // dragging the view box pans the main view by the same world distance
+  handleMinimapDrag(e: PointerEvent) {
+    const layout = this.getMinimapLayout();
+    if (!layout) return;
+
+    const ratio = this.currentScale / layout.scale;
+    this.panBy(-e.movementX * ratio, -e.movementY * ratio);
+  }
+
+  // a new floor plan starts at the top left of the view, fully visible
+  setUnderlay(src: string | undefined) {
+    const previous = this.activeFloor.underlay;
+    if (previous) this.underlayImages.delete(previous.src);
+
+    this.activeFloor.underlay =
+      src === undefined
+        ? undefined
+        : createUnderlay(src, this.canvasToWorld({ x: 0, y: 0 }));
+    this.shouldRender = true;
+    this.onUnderlayChange?.();
+  }
+
+  updateUnderlay(update: Partial<Omit<Underlay, "src">>) {
+    const underlay = this.activeFloor.underlay;
+    if (!underlay) return;
+
+    this.activeFloor.underlay = { ...underlay, ...update };
+    this.shouldRender = true;
+    this.onUnderlayChange?.();
+  }
+
+  // a third click starts over
+  addCalibrationPoint(worldCoord: XYCoord) {
+    this.calibrationPoints =
+      this.calibrationPoints.length < 2
+        ? [...this.calibrationPoints, worldCoord]
+        : [worldCoord];
+    this.shouldRender = true;
+    this.onCalibrationChange?.();
+  }
+
+  clearCalibration() {
+    if (!this.calibrationPoints.length) return;
+
+    this.calibrationPoints = [];
+    this.shouldRender = true;
+    this.onCalibrationChange?.();
+  }
+
+  // between the calibration points, in cells
+  getCalibrationDistance() {
+    const [from, to] = this.calibrationPoints;
+    if (!from || !to) return;
+
+    return pointDistance(from, to) / this.cellSize;
+  }
+
+  applyCalibration(realDistance: number, unit: LengthUnit) {
+    const distance = this.getCalibrationDistance();
+    if (!distance || realDistance <= 0) return;
+
+    this.setMapScale(
+      calibrateScale(
+        distance * this.cellSize,
+        realDistance,
+        unit,
+        this.cellSize
+      )
+    );
+    this.clearCalibration();
+  }
+
+  setMapScale(mapScale: MapScale | undefined) {
+    this.mapScale = mapScale;
+    if (mapScale) this.measureUnit = mapScale.unit;
+    this.shouldRender = true;
+    this.onMapScaleChange?.();
+  }
+
+  // a cell's center, or the cell corner nearest to the point
+  snapMeasurePoint(worldCoord: XYCoord) {
+    if (this.measureSnap === "center") {
+      return this.getCellCenter(this.worldCoordToCellCoord(worldCoord));
+    }
+
+    const half = this.cellSize / 2;
+    return this.cellCoordToWorldCoord(
+      this.worldCoordToCellCoord({
+        x: worldCoord.x + half,
+        y: worldCoord.y + half,
+      })
+    );
+  }
+
+  startMeasurement(worldCoord: XYCoord) {
+    const point = this.snapMeasurePoint(worldCoord);
+    const cell = this.worldCoordToCellCoord(worldCoord);
+
+    this.cursorMode = CursorMode.Measure;
+    this.measurement = { from: point, to: point, fromCell: cell, toCell: cell };
+    this.updateMeasurePath();
+  }
+
+  // the walking route is only searched again when the end changes cell
+  updateMeasurement(worldCoord: XYCoord) {
+    const measurement = this.measurement;
+    if (!measurement) return;
+
+    const to = this.snapMeasurePoint(worldCoord);
+    const toCell = this.worldCoordToCellCoord(worldCoord);
+    const isSameCell = this.isSameCell(toCell, measurement.toCell);
+    if (isSameCell && to.x === measurement.to.x && to.y === measurement.to.y) {
+      return;
+    }
+
+    this.measurement = { ...measurement, to, toCell };
+    if (isSameCell) {
+      this.shouldRender = true;
+      this.onMeasurementChange?.();
+    } else {
+      this.updateMeasurePath();
+    }
+  }
+
+  // follows the map as it's edited, like the route
+  updateMeasurePath() {
+    const measurement = this.measurement;
+    if (!measurement) return;
+
+    const { fromCell, toCell } = measurement;
+    this.measurement = {
+      ...measurement,
+      path: findPath(
+        fromCell,
+        toCell,
+        (coord) => this.isWalkable(coord),
+        this.getRouteBounds(fromCell, toCell)
+      ),
+    };
+    this.shouldRender = true;
+    this.onMeasurementChange?.();
+  }
+
+  clearMeasurement() {
+    if (!this.measurement) return;
+
+    this.measurement = undefined;
+    this.shouldRender = true;
+    this.onMeasurementChange?.();
+  }
+
+  setMeasureSnap(measureSnap: MeasureSnap) {
+    this.measureSnap = measureSnap;
+  }
+
+  setMeasureUnit(measureUnit: LengthUnit) {
+    this.measureUnit = measureUnit;
+    this.shouldRender = true;
+  }
+
+  // the topmost annotation on the active floor under the point
+  getAnnotationAt(worldCoord: XYCoord) {
+    return this.getFloorAnnotations()
+      .reverse()
+      .find((annotation) => {
+        const { x, y, width, height } = this.getAnnotationBounds(annotation);
+        return (
+          worldCoord.x >= x &&
+          worldCoord.x <= x + width &&
+          worldCoord.y >= y &&
+          worldCoord.y <= y + height
+        );
+      });
+  }
+
+  addAnnotation(worldCoord: XYCoord, text = "Label") {
+    const annotation: Annotation = {
+      id: createAnnotationId(this.annotations),
+      floorId: this.activeFloor.id,
+      x: worldCoord.x,
+      y: worldCoord.y,
+      text,
+      size: 1,
+    };
+    this.annotations = [...this.annotations, annotation];
+    this.setActiveAnnotation(annotation.id);
+    return annotation;
+  }
+
+  setActiveAnnotation(annotationId: string | undefined) {
+    if (annotationId === this.activeAnnotationId) return;
+
+    this.activeAnnotationId = annotationId;
+    this.shouldRender = true;
+    this.onAnnotationsChange?.();
+  }
+
+  updateAnnotation(
+    annotationId: string,
+    update: Partial<Omit<Annotation, "id" | "floorId">>
+  ) {
+    this.annotations = this.annotations.map((annotation) =>
+      annotation.id === annotationId ? { ...annotation, ...update } : annotation
+    );
+    this.shouldRender = true;
+    this.onAnnotationsChange?.();
+  }
+
+  removeAnnotation(annotationId: string) {
+    this.annotations = this.annotations.filter(({ id }) => id !== annotationId);
+    if (this.activeAnnotationId === annotationId) {
+      this.activeAnnotationId = undefined;
+    }
+    this.shouldRender = true;
+    this.onAnnotationsChange?.();
+  }
+
+  /**
+   * Clicking an annotation selects it for dragging & editing, clicking
+   * elsewhere deselects it or, when none is selected, places a new one.
+   */
+  handleAnnotatePointerDown(worldCoord: XYCoord) {
+    let annotation = this.getAnnotationAt(worldCoord);
+
+    if (!annotation && this.activeAnnotationId !== undefined) {
+      this.setActiveAnnotation(undefined);
+      return;
+    }
+
+    annotation ??= this.addAnnotation(worldCoord);
+    this.setActiveAnnotation(annotation.id);
+    this.cursorMode = CursorMode.MoveAnnotation;
+    this.annotationGrab = {
+      x: worldCoord.x - annotation.x,
+      y: worldCoord.y - annotation.y,
+    };
+  }
+
+  setShowRegionLabels(showRegionLabels: boolean) {
+    this.showRegionLabels = showRegionLabels;
+    this.shouldRender = true;
+  }
+
+  handleWheel = (e: WheelEvent) => {
+    e.preventDefault();
+    const unclampedScaleDelta = (-1 * e.deltaY) / 320;
+    this.zoomAt(
+      { x: e.clientX, y: e.clientY },
+      this.currentScale + unclampedScaleDelta
+    );
+  };
+
+  // NESW
+  getCellNeighbors(cellCoord: GridCellCoord) {
+    return {
+      north: this.cellData.get({ row: cellCoord.row - 1, col: cellCoord.col }),
+      east: this.cellData.get({ row: cellCoord.row, col: cellCoord.col + 1 }),
+      south: this.cellData.get({ row: cellCoord.row + 1, col: cellCoord.col }),
+      west: this.cellData.get({ row: cellCoord.row, col: cellCoord.col - 1 }),
+    };
+  }
+
+  cellsAreSameType(cellA: GridCell, cellB: GridCell) {
+    return cellA.fillStyle === cellB.fillStyle;
+  }
+
+  makeAdjacencyMask(neighbors: CellNeighbors, fillStyle = this.fillStyle) {
+    let mask = 0b0000;
+
+    if (neighbors.north?.fillStyle === fillStyle) {
+      mask = this.setMaskBit(mask, CardinalBit.North);
+    }
+
+    if (neighbors.east?.fillStyle === fillStyle) {
+      mask = this.setMaskBit(mask, CardinalBit.East);
+    }
+
+    if (neighbors.south?.fillStyle === fillStyle) {
+      mask = this.setMaskBit(mask, CardinalBit.South);
+    }
+
+    if (neighbors.west?.fillStyle === fillStyle) {
+      mask = this.setMaskBit(mask, CardinalBit.West);
+    }
+
+    return mask;
+  }
+
+  setMaskBit(mask: number, bit: CardinalBit) {
+    return mask | bit;
+  }
+
+  unsetMaskBit(mask: number, bit: CardinalBit) {
+    return mask & ~bit;
+  }
+
+  isBitSet(mask: number, bit: CardinalBit) {
+    return (mask & bit) === bit;
+  }
+
+  setCell(coord: GridCellCoord, cell: GridCell) {
+    this.recordCellState(coord);
+    this.cellData.set(coord, cell);
+    this.informAdjacentNeighbors(cell);
+    this.invalidateCell(coord);
+    this.extendPaintedExtents(coord);
+  }
+
+  extendPaintedExtents(coord: GridCellCoord) {
+    const topLeft = this.cellCoordToWorldCoord(coord);
+    const bottomRight = {
+      x: topLeft.x + this.cellSize,
+      y: topLeft.y + this.cellSize,
+    };
+    const { minPaintedCoord: min, maxPaintedCoord: max } = this;
+
+    this.minPaintedCoord = min
+      ? { x: Math.min(min.x, topLeft.x), y: Math.min(min.y, topLeft.y) }
+      : topLeft;
+    this.maxPaintedCoord = max
+      ? { x: Math.max(max.x, bottomRight.x), y: Math.max(max.y, bottomRight.y) }
+      : bottomRight;
+  }
+
+  // removing a cell can only shrink the extents if it was on their edge
+  isOnPaintedEdge(coord: GridCellCoord) {
+    const { minPaintedCoord: min, maxPaintedCoord: max } = this;
+    if (!min || !max) return false;
+
+    const topLeft = this.cellCoordToWorldCoord(coord);
+    return (
+      topLeft.x <= min.x ||
+      topLeft.y <= min.y ||
+      topLeft.x + this.cellSize >= max.x ||
+      topLeft.y + this.cellSize >= max.y
+    );
+  }
+
+  updatePaintedExtents() {
+    this.minPaintedCoord = undefined;
+    this.maxPaintedCoord = undefined;
+
+    for (const layer of this.layers) {
+      for (const cell of layer.cellData) {
+        this.extendPaintedExtents(cell);
+      }
+    }
+
+    this.paintedExtentsStale = false;
+  }
+
+  // called once an edit is complete, rather than per cell
+  handleMapChange() {
+    if (this.paintedExtentsStale) this.updatePaintedExtents();
+    this.minimapStale = true;
+    this.regionLabels = undefined;
+    this.updateRoute();
+    this.updateMeasurePath();
+    this.onMapChange?.();
+  }
+
+  getCell(coord: GridCellCoord): GridCell | undefined {
+    return this.cellData.get(coord);
+  }
+
+  updateCell(coord: GridCellCoord, update: Partial<GridCell>) {
+    const cell = this.getCell(coord);
+    if (!cell) return;
+
+    this.recordCellState(coord);
+    Object.assign(cell, update);
+    if ("fillStyle" in update) {
+      this.informAdjacentNeighbors(cell);
+      this.invalidateCell(coord);
+    }
+    this.regionCells.clear();
+  }
+
+  informAdjacentNeighbors(cell: GridCell) {
+    const { north, east, south, west } = cell.neighbors;
+
+    if (north) {
+      const nextMask =
+        north.fillStyle === cell.fillStyle
+          ? this.setMaskBit(north.adjacency, CardinalBit.South)
+          : this.unsetMaskBit(north.adjacency, CardinalBit.South);
+      north.adjacency = nextMask;
+      north.neighbors.south = cell;
+    }
+    if (east) {
+      const nextMask =
+        east.fillStyle === cell.fillStyle
+          ? this.setMaskBit(east.adjacency, CardinalBit.West)
+          : this.unsetMaskBit(east.adjacency, CardinalBit.West);
+      east.adjacency = nextMask;
+      east.neighbors.west = cell;
+    }
+    if (south) {
+      const nextMask =
+        south.fillStyle === cell.fillStyle
+          ? this.setMaskBit(south.adjacency, CardinalBit.North)
+          : this.unsetMaskBit(south.adjacency, CardinalBit.North);
+      south.adjacency = nextMask;
+      south.neighbors.north = cell;
+    }
+    if (west) {
+      const nextMask =
+        west.fillStyle === cell.fillStyle
+          ? this.setMaskBit(west.adjacency, CardinalBit.East)
+          : this.unsetMaskBit(west.adjacency, CardinalBit.East);
+      west.adjacency = nextMask;
+      west.neighbors.east = cell;
+    }
+  }
+
+  // unlink a removed cell from its neighbors and clear their facing bits
+  detachFromNeighbors(cell: GridCell) {
+    const { north, east, south, west } = cell.neighbors;
+
+    if (north) {
+      north.adjacency = this.unsetMaskBit(north.adjacency, CardinalBit.South);
+      north.neighbors.south = undefined;
+    }
+    if (east) {
+      east.adjacency = this.unsetMaskBit(east.adjacency, CardinalBit.West);
+      east.neighbors.west = undefined;
+    }
+    if (south) {
+      south.adjacency = this.unsetMaskBit(south.adjacency, CardinalBit.North);
+      south.neighbors.north = undefined;
+    }
+    if (west) {
+      west.adjacency = this.unsetMaskBit(west.adjacency, CardinalBit.East);
+      west.neighbors.east = undefined;
+    }
+  }
+
+  getRegionId(cell: GridCell) {
+    return this.activeLayer.getRegionId(cell);
+  }
+
+  getAdjacentLikeRegionIds(
+    neighbors: CellNeighbors,
+    fillStyle = this.fillStyle
+  ) {
+    const adjacentRegions = new Set<number>();
+    Object.values(neighbors).forEach(
+      (n) =>
+        n?.fillStyle === fillStyle && adjacentRegions.add(this.getRegionId(n))
+    );
+
+    return [...adjacentRegions];
+  }
+
+  getPotentiallyCleavedNeighbors(cell: GridCell, regionId: number) {
+    const dirs = directions.filter((dir) => {
+      const neighbor = cell.neighbors[dir];
+      return !!neighbor && this.getRegionId(neighbor) === regionId;
+    });
+
+    return dirs.length > 1 ? dirs : [];
+  }
+
+  parseCellId(id: string) {
+    return id.split(".");
+  }
+
+  searchRegionForCells(
+    startCell: GridCell | undefined,
+    searchIds: Set<string>
+  ) {
+    const foundIds = new Set<string>();
+    if (!startCell) return foundIds;
+
+    const regionId = this.getRegionId(startCell);
+
+    this.floodFill(
+      startCell,
+      (cell) =>
+        foundIds.size < searchIds.size && this.getRegionId(cell) === regionId,
+      (cell) => searchIds.has(cell.id) && foundIds.add(cell.id)
+    );
+
+    return foundIds;
+  }
+
+  getCellCoord(cell: GridCell) {
+    return { row: cell.row, col: cell.col };
+  }
+
+  // explicit stack, large regions would overflow the call stack
+  floodFill(
+    startCell: GridCell,
+    conditionFn: (cell: GridCell) => boolean,
+    update: (cell: GridCell) => void
+  ) {
+    const visited = new Set<GridCell>([startCell]);
+    const stack = [startCell];
+
+    while (stack.length) {
+      const currentCell = stack.pop()!;
+      if (!conditionFn(currentCell)) continue;
+
+      update(currentCell);
+
+      for (const dir of directions) {
+        const neighbor = currentCell.neighbors[dir];
+        if (!neighbor || visited.has(neighbor)) continue;
+        visited.add(neighbor);
+        stack.push(neighbor);
+      }
+    }
+  }
+
+  setRegionParent(label: number, parent: number | undefined) {
+    if (this.history.isRecording) {
+      this.history.recordRegionParent(label, this.regionIndex.getParent(label));
+    }
+    this.regionIndex.setParent(label, parent);
+    this.regionCells.clear();
+  }
+
+  // for newly painted regions; pieces split off get theirs in separateRegionPieces
+  createRegionId() {
+    const regionId = this.nextRegionId++;
+    this.history.recordRegionCreated(regionId);
+    return regionId;
+  }
+
+  // links the regions in the index, no cells are relabeled. The first id is
+  // the survivor for metadata purposes; the returned id is the merged root
+  mergeRegions(regionIds: number[]) {
+    const [survivorId, ...absorbedIds] = regionIds;
+    if (!absorbedIds.length) return survivorId;
+
+    let rootId = survivorId;
+    for (const id of absorbedIds) {
+      const [root, child] = this.regionIndex.rankOrder(rootId, id);
+      this.setRegionParent(child, root);
+      rootId = root;
+    }
+
+    const merged = mergeRegionMeta(
+      this.regionMeta.get(survivorId),
+      absorbedIds.map((id) => this.regionMeta.get(id))
+    );
+
+    regionIds.forEach((id) => this.setRegionMeta(id, undefined));
+    this.setRegionMeta(rootId, merged);
+    this.history.recordRegionMerge({ before: regionIds, after: rootId });
+
+    if (
+      this.selectedRegionId !== undefined &&
+      regionIds.includes(this.selectedRegionId)
+    ) {
+      this.selectRegion(rootId);
+    }
+
+    return rootId;
+  }
+
+  // a removed or recolored cell may have cut its region apart
+  splitCleavedRegion(cell: GridCell, prevRegionId: number) {
+    const hasRegionNeighbor = directions.some((dir) => {
+      const neighbor = cell.neighbors[dir];
+      return !!neighbor && this.getRegionId(neighbor) === prevRegionId;
+    });
+
+    // the removed cell was the last one in its region
+    if (!hasRegionNeighbor) {
+      this.setRegionMeta(prevRegionId, undefined);
+      if (this.selectedRegionId === prevRegionId) this.selectRegion(undefined);
+      return;
+    }
+
+    const dirsToCheck = this.getPotentiallyCleavedNeighbors(cell, prevRegionId);
+    if (!dirsToCheck.length) return;
+
+    const pieceStarts = this.getLocallyUnconnectedNeighbors(
+      cell,
+      prevRegionId,
+      dirsToCheck
+    );
+    if (pieceStarts.length < 2) return;
+
+    const splitRegionIds = this.separateRegionPieces(pieceStarts, prevRegionId);
+
+    if (splitRegionIds.length) {
+      this.splitRegion(prevRegionId, splitRegionIds);
+    }
+  }
+
+  /**
+   * Walks the 8 cells around a removed cell. Orthogonal neighbors in the same
+   * unbroken run of region cells are still connected through the corners, so
+   * only one neighbor per run needs a global connectivity check.
+   */
+  getLocallyUnconnectedNeighbors(
+    cell: GridCellCoord,
+    regionId: number,
+    dirs: Direction[]
+  ) {
+    const ring: Array<[number, number, Direction?]> = [
+      [-1, 0, "north"],
+      [-1, 1],
+      [0, 1, "east"],
+      [1, 1],
+      [1, 0, "south"],
+      [1, -1],
+      [0, -1, "west"],
+      [-1, -1],
+    ];
+
+    const inRegion = ring.map(([dRow, dCol]) => {
+      const ringCell = this.getCell({
+        row: cell.row + dRow,
+        col: cell.col + dCol,
+      });
+      return !!ringCell && this.getRegionId(ringCell) === regionId;
+    });
+
+    const gapIndex = inRegion.indexOf(false);
+    if (gapIndex === -1) return [];
+
+    const starts: GridCell[] = [];
+    let runHasStart = false;
+
+    for (let step = 1; step <= ring.length; step++) {
+      const i = (gapIndex + step) % ring.length;
+      const dir = ring[i][2];
+
+      if (!inRegion[i]) {
+        runHasStart = false;
+        continue;
+      }
+      if (dir && dirs.includes(dir) && !runHasStart) {
+        starts.push(
+          this.getCell({
+            row: cell.row + ring[i][0],
+            col: cell.col + ring[i][1],
+          })!
+        );
+        runHasStart = true;
+      }
+    }
+
+    return starts;
+  }
+
+  /**
+   * Walks every piece in lockstep. Pieces that meet are joined; a piece that
+   * runs out of cells first is cut off and gets a new region id. The last
+   * piece left keeps the original id, so the cost is about the size of the
+   * smaller pieces rather than the whole region.
+   */
+  separateRegionPieces(starts: GridCell[], regionId: number) {
+    type Piece = {
+      frontier: GridCell[];
+      head: number;
+      cells: GridCell[];
+      mergedInto?: Piece;
+    };
+
+    const owners = new Map<GridCell, Piece>();
+    const resolve = (piece: Piece) => {
+      while (piece.mergedInto) piece = piece.mergedInto;
+      return piece;
+    };
+
+    let active: Piece[] = starts.map((start) => {
+      const piece: Piece = { frontier: [start], head: 0, cells: [start] };
+      owners.set(start, piece);
+      return piece;
+    });
+
+    const splitRegionIds: number[] = [];
+
+    while (active.length > 1) {
+      for (const piece of active) {
+        if (piece.mergedInto) continue;
+
+        const current = piece.frontier[piece.head++];
+
+        for (const dir of directions) {
+          const neighbor = current.neighbors[dir];
+          if (!neighbor || this.getRegionId(neighbor) !== regionId) continue;
+
+          const owner = owners.get(neighbor);
+          if (!owner) {
+            owners.set(neighbor, piece);
+            piece.frontier.push(neighbor);
+            piece.cells.push(neighbor);
+            continue;
+          }
+
+          const other = resolve(owner);
+          if (other === piece) continue;
+
+          piece.frontier = piece.frontier
+            .slice(piece.head)
+            .concat(other.frontier.slice(other.head));
+          piece.head = 0;
+          piece.cells = piece.cells.concat(other.cells);
+          other.mergedInto = piece;
+        }
+
+        if (piece.head >= piece.frontier.length) {
+          const nextRegionId = this.nextRegionId++;
+          splitRegionIds.push(nextRegionId);
+          piece.cells.forEach((pieceCell) =>
+            this.updateCell(pieceCell, { regionId: nextRegionId })
+          );
+          active = active.filter((p) => p !== piece);
+          if (active.filter((p) => !p.mergedInto).length < 2) break;
+        }
+      }
+
+      active = active.filter((piece) => !piece.mergedInto);
+    }
+
+    return splitRegionIds;
+  }
+
+  getRegionMeta(regionId: number) {
+    return this.regionMeta.get(regionId);
+  }
+
+  setRegionMeta(regionId: number, meta: RegionMeta | undefined) {
+    if (this.history.isRecording) {
+      this.history.recordRegion(regionId, this.regionMeta.get(regionId));
+    }
+
+    if (meta) {
+      this.regionMeta.set(regionId, meta);
+    } else {
+      this.regionMeta.delete(regionId);
+    }
+  }
+
+  updateRegionMeta(regionId: number, meta: RegionMeta) {
+    if (this.history.amendRegionMeta(regionId, meta)) {
+      this.setRegionMeta(regionId, meta);
+      this.publishRegionMeta([{ regionId, meta }]);
+      this.handleMapChange();
+      return;
+    }
+
+    this.transact(() => this.setRegionMeta(regionId, meta));
+  }
+
+  // the piece that keeps the original id keeps its metadata, cut off pieces get a copy
+  splitRegion(prevRegionId: number, nextRegionIds: number[]) {
+    const meta = this.regionMeta.get(prevRegionId);
+
+    nextRegionIds.forEach((id) => this.setRegionMeta(id, meta && { ...meta }));
+    this.history.recordRegionSplit({
+      before: prevRegionId,
+      after: [prevRegionId, ...nextRegionIds],
+    });
+  }
+
+  selectRegion(regionId: number | undefined) {
+    this.selectedRegionId = regionId;
+    this.onRegionSelect?.(regionId);
+    this.shouldRender = true;
+  }
+
+  shouldPaintCell(cellCoord: GridCellCoord, fillStyle = this.fillStyle) {
+    return (
+      this.canEditActiveLayer &&
+      this.cellData.get(cellCoord)?.fillStyle !== fillStyle
+    );
+  }
+
+  paintCell(cellCoord: GridCellCoord) {
+    if (!this.shouldPaintCell(cellCoord)) return;
+
+    this.transact(() => this.placePaintedCell(cellCoord));
+  }
+
+  placePaintedCell(cellCoord: GridCellCoord) {
+    const neighbors = this.getCellNeighbors(cellCoord);
+    const adjacentLikeRegionIds = this.getAdjacentLikeRegionIds(neighbors);
+
+    const prevCell = this.getCell(cellCoord);
+    const prevRegionId = prevCell && this.getRegionId(prevCell);
+    const regionId = adjacentLikeRegionIds.length
+      ? this.mergeRegions(adjacentLikeRegionIds)
+      : this.createRegionId();
+    const mask = this.makeAdjacencyMask(neighbors);
+
+    const cell: GridCell = {
+      id: `${cellCoord.row}.${cellCoord.col}`,
+      row: cellCoord.row,
+      col: cellCoord.col,
+      neighbors,
+      fillStyle: this.fillStyle,
+      adjacency: parseInt(mask.toString(2), 2),
+      regionId,
+    };
+
+    this.setCell(cellCoord, cell);
+
+    if (prevRegionId !== undefined) {
+      this.splitCleavedRegion(cell, prevRegionId);
+    }
+
+    this.shouldRender = true;
+  }
+
+  /**
+   * Paints many cells as one batch. Cells are placed first, then each
+   * connected group of them is merged with its like neighbors once, and each
+   * region that lost cells is checked for splits once.
+   */
+  paintCells(cellCoords: GridCellCoord[], fillStyle = this.fillStyle) {
+    const seen = new Set<string>();
+    const coords = cellCoords.filter((coord) => {
+      const key = `${coord.row}.${coord.col}`;
+      if (seen.has(key) || !this.shouldPaintCell(coord, fillStyle)) {
+        return false;
+      }
+      seen.add(key);
+      return true;
+    });
+    if (!coords.length) return;
+
+    this.transact(() => {
+      const replacedByRegion = new Map<number, GridCellCoord[]>();
+      const placed = new Set<GridCell>();
+
+      for (const coord of coords) {
+        const prevCell = this.getCell(coord);
+        if (prevCell) {
+          const prevRegionId = this.getRegionId(prevCell);
+          const replaced = replacedByRegion.get(prevRegionId);
+          if (replaced) replaced.push(coord);
+          else replacedByRegion.set(prevRegionId, [coord]);
+        }
+
+        const neighbors = this.getCellNeighbors(coord);
+        const cell: GridCell = {
+          id: `${coord.row}.${coord.col}`,
+          row: coord.row,
+          col: coord.col,
+          neighbors,
+          fillStyle,
+          adjacency: this.makeAdjacencyMask(neighbors, fillStyle),
+          regionId: -1,
+        };
+
+        this.setCell(coord, cell);
+        placed.add(cell);
+      }
+
+      for (const cell of placed) {
+        if (cell.regionId !== -1) continue;
+
+        const group: GridCell[] = [];
+        const likeRegionIds = new Set<number>();
+
+        this.floodFill(
+          cell,
+          (current) => placed.has(current),
+          (current) => {
+            group.push(current);
+            for (const dir of directions) {
+              const neighbor = current.neighbors[dir];
+              if (
+                neighbor &&
+                !placed.has(neighbor) &&
+                neighbor.fillStyle === fillStyle
+              ) {
+                likeRegionIds.add(this.getRegionId(neighbor));
+              }
+            }
+          }
+        );
+
+        const regionId = likeRegionIds.size
+          ? this.mergeRegions([...likeRegionIds])
+          : this.createRegionId();
+        group.forEach((groupCell) => this.updateCell(groupCell, { regionId }));
+      }
+
+      replacedByRegion.forEach((replaced, prevRegionId) =>
+        this.splitAfterBatch(prevRegionId, replaced)
+      );
+    });
+
+    this.shouldRender = true;
+  }
+
+  // split check for a region that lost several cells at once
+  splitAfterBatch(prevRegionId: number, removed: GridCellCoord[]) {
+    const starts = new Set<GridCell>();
+
+    for (const coord of removed) {
+      for (const neighbor of Object.values(this.getCellNeighbors(coord))) {
+        if (neighbor && this.getRegionId(neighbor) === prevRegionId) {
+          starts.add(neighbor);
+        }
+      }
+    }
+
+    if (!starts.size) {
+      this.setRegionMeta(prevRegionId, undefined);
+      if (this.selectedRegionId === prevRegionId) this.selectRegion(undefined);
+      return;
+    }
+    if (starts.size < 2) return;
+
+    const splitRegionIds = this.separateRegionPieces([...starts], prevRegionId);
+
+    if (splitRegionIds.length) {
+      this.splitRegion(prevRegionId, splitRegionIds);
+    }
+  }
+
+  // recolors the whole region under the cell
+  bucketFill(cellCoord: GridCellCoord) {
+    const startCell = this.getCell(cellCoord);
+    if (!startCell || startCell.fillStyle === this.fillStyle) return;
+    if (!this.canEditActiveLayer) return;
+
+    const regionId = this.getRegionId(startCell);
+    const coords: GridCellCoord[] = [];
+
+    this.floodFill(
+      startCell,
+      (cell) => this.getRegionId(cell) === regionId,
+      (cell) => coords.push(this.getCellCoord(cell))
+    );
+
+    // the recolored region keeps its metadata unless it merged into a named one
+    const meta = this.regionMeta.get(regionId);
+
+    this.transact(() => {
+      this.paintCells(coords);
+
+      const filledCell = this.getCell(cellCoord);
+      const filledRegionId = filledCell && this.getRegionId(filledCell);
+      if (
+        meta &&
+        filledRegionId !== undefined &&
+        !this.regionMeta.get(filledRegionId)?.name
+      ) {
+        this.setRegionMeta(
+          filledRegionId,
+          mergeRegionMeta(meta, [this.regionMeta.get(filledRegionId)])
+        );
+      }
+    });
+  }
+
+  setTool(tool: Tool) {
+    this.tool = tool;
+    if (tool !== Tool.Select) this.clearCellSelection();
+    if (tool !== Tool.Calibrate) this.clearCalibration();
+    if (tool !== Tool.Measure) this.clearMeasurement();
+    if (tool !== Tool.Annotate) this.setActiveAnnotation(undefined);
+  }
+
+  eraseCells(cellCoords: GridCellCoord[]) {
+    if (!this.canEditActiveLayer) return;
+
+    this.transact(() => {
+      const removedByRegion = new Map<number, GridCellCoord[]>();
+
+      for (const coord of cellCoords) {
+        const cell = this.getCell(coord);
+        if (!cell) continue;
+
+        const regionId = this.getRegionId(cell);
+        const removed = removedByRegion.get(regionId);
+        if (removed) removed.push(coord);
+        else removedByRegion.set(regionId, [coord]);
+
+        this.removeCell(cell);
+      }
+
+      removedByRegion.forEach((removed, regionId) =>
+        this.splitAfterBatch(regionId, removed)
+      );
+    });
+
+    this.mouseRegionId = undefined;
+    this.shouldRender = true;
+  }
+
+  setCellSelection(coords: Iterable<GridCellCoord>) {
+    const prevSelection = this.cellSelection;
+    this.cellSelection = new Map();
+    for (const coord of coords) {
+      if (this.getCell(coord)) this.cellSelection.set(coordKey(coord), coord);
+    }
+    this.shouldRender = true;
+
+    const isSameSelection =
+      prevSelection.size === this.cellSelection.size &&
+      [...prevSelection.keys()].every((key) => this.cellSelection.has(key));
+    if (!isSameSelection) {
+      this.events.emit("selectionChanged", {
+        before: [...prevSelection.values()],
+        after: [...this.cellSelection.values()],
+      });
+    }
+  }
+
+  clearCellSelection() {
+    this.setCellSelection([]);
+  }
+
+  // shift-click adds or removes a whole region
+  toggleRegionSelection(cellCoord: GridCellCoord) {
+    const cell = this.getCell(cellCoord);
+    if (!cell) return;
+
+    const regionCells = this.getRegionCells(this.getRegionId(cell));
+    const isSelected = this.cellSelection.has(coordKey(cell));
+    const next = new Map(this.cellSelection);
+
+    for (const regionCell of regionCells) {
+      if (isSelected) next.delete(coordKey(regionCell));
+      else next.set(coordKey(regionCell), this.getCellCoord(regionCell));
+    }
+
+    this.setCellSelection(next.values());
+  }
+
+  getSelectionStamp(): Stamp | undefined {
+    const cells = [...this.cellSelection.values()]
+      .map((coord) => this.getCell(coord))
+      .filter((cell): cell is GridCell => !!cell);
+    if (!cells.length) return;
+
+    const { minRow, minCol, maxRow, maxCol } = getCoordBounds(cells);
+    const regions: StampRegion[] = [];
+    const seenRegionIds = new Set<number>();
+
+    for (const cell of cells) {
+      const regionId = this.getRegionId(cell);
+      if (seenRegionIds.has(regionId)) continue;
+      seenRegionIds.add(regionId);
+
+      const meta = this.regionMeta.get(regionId);
+      const isWhollySelected = this.getRegionCells(regionId).every(
+        (regionCell) => this.cellSelection.has(coordKey(regionCell))
+      );
+
+      if (meta && isWhollySelected) {
+        regions.push({
+          dRow: cell.row - minRow,
+          dCol: cell.col - minCol,
+          meta: { ...meta },
+        });
+      }
+    }
+
+    return {
+      height: maxRow - minRow + 1,
+      width: maxCol - minCol + 1,
+      cells: cells.map((cell) => ({
+        dRow: cell.row - minRow,
+        dCol: cell.col - minCol,
+        fillStyle: cell.fillStyle,
+      })),
+      regions,
+    };
+  }
+
+  // paints a stamp over whatever is there; empty stamp cells are transparent
+  placeStamp(stamp: Stamp, origin: GridCellCoord) {
+    this.transact(() => {
+      const coordsByFill = new Map<string, GridCellCoord[]>();
+
+      for (const { dRow, dCol, fillStyle } of stamp.cells) {
+        const coord = { row: origin.row + dRow, col: origin.col + dCol };
+        const coords = coordsByFill.get(fillStyle);
+        if (coords) coords.push(coord);
+        else coordsByFill.set(fillStyle, [coord]);
+      }
+
+      coordsByFill.forEach((coords, fillStyle) =>
+        this.paintCells(coords, fillStyle)
+      );
+
+      for (const { dRow, dCol, meta } of stamp.regions) {
+        const cell = this.getCell({
+          row: origin.row + dRow,
+          col: origin.col + dCol,
+        });
+        if (!cell) continue;
+
+        const regionId = this.getRegionId(cell);
+        this.setRegionMeta(
+          regionId,
+          mergeRegionMeta(this.regionMeta.get(regionId), [{ ...meta }])
+        );
+      }
+    });
+
+    this.setCellSelection(stampCoords(stamp, origin));
+  }
+
+  getSelectionOrigin() {
+    const { minRow, minCol } = getCoordBounds(this.cellSelection.values());
+    return { row: minRow, col: minCol };
+  }
+
+  // lifts the selection and puts it back transformed, as one undoable step
+  transformSelection(
+    transform: (stamp: Stamp) => Stamp,
+    getOrigin: (stamp: Stamp, next: Stamp) => GridCellCoord
+  ) {
+    const stamp = this.getSelectionStamp();
+    if (!stamp) return;
+
+    const next = transform(stamp);
+    const origin = getOrigin(stamp, next);
+
+    this.transact(() => {
+      this.eraseCells([...this.cellSelection.values()]);
+      this.placeStamp(next, origin);
+    });
+  }
+
+  moveSelection(offset: GridCellCoord) {
+    const origin = this.getSelectionOrigin();
+
+    this.transformSelection(
+      (stamp) => stamp,
+      () => ({ row: origin.row + offset.row, col: origin.col + offset.col })
+    );
+  }
+
+  // rotates about the center of the selection's bounding box
+  rotateSelection() {
+    const origin = this.getSelectionOrigin();
+
+    this.transformSelection(rotateStamp, (stamp, next) => ({
+      row: origin.row + Math.floor((stamp.height - next.height) / 2),
+      col: origin.col + Math.floor((stamp.width - next.width) / 2),
+    }));
+  }
+
+  flipSelection(axis: "horizontal" | "vertical") {
+    const origin = this.getSelectionOrigin();
+
+    this.transformSelection(
+      (stamp) => flipStamp(stamp, axis),
+      () => origin
+    );
+  }
+
+  deleteSelection() {
+    this.eraseCells([...this.cellSelection.values()]);
+    this.clearCellSelection();
+  }
+
+  copySelection() {
+    this.clipboard = this.getSelectionStamp() ?? this.clipboard;
+  }
+
+  cutSelection() {
+    this.copySelection();
+    this.deleteSelection();
+  }
+
+  // pastes with the top left corner under the cursor
+  pasteClipboard() {
+    if (!this.clipboard) return;
+
+    const origin = this.mouseCellCoord ?? this.getSelectionOrigin();
+    if (!Number.isFinite(origin.row)) return;
+
+    this.placeStamp(this.clipboard, origin);
+  }
+
+  eraseCell(cellCoord: GridCellCoord) {
+    const cell = this.getCell(cellCoord);
+    if (!cell || !this.canEditActiveLayer) return;
+
+    const regionId = this.getRegionId(cell);
+
+    this.transact(() => {
+      this.removeCell(cell);
+      this.splitCleavedRegion(cell, regionId);
+    });
+
+    if (this.mouseRegionId === regionId) {
+      this.mouseRegionId = undefined;
     }
 
-    if (neighbors.south?.fillStyle === this.fillStyle) {
-      mask = this.setMaskBit(mask, CardinalBit.South);
+    this.shouldRender = true;
+  }
+
+  removeCell(cell: GridCell) {
+    this.recordCellState(cell);
+    if (this.isOnPaintedEdge(cell)) this.paintedExtentsStale = true;
+    this.cellData.delete(cell);
+    this.detachFromNeighbors(cell);
+    this.invalidateCell(cell);
+  }
+
+  // rebuild a cell from its minimal state, leaving region ids as given
+  restoreCell(coord: GridCellCoord, state: CellState) {
+    const existing = this.getCell(coord);
+
+    if (!state) {
+      if (existing) this.removeCell(existing);
+      return;
     }
 
-    if (neighbors.west?.fillStyle === this.fillStyle) {
-      mask = this.setMaskBit(mask, CardinalBit.West);
+    const neighbors = this.getCellNeighbors(coord);
+    const mask = this.makeAdjacencyMask(neighbors, state.fillStyle);
+
+    this.setCell(coord, {
+      id: `${coord.row}.${coord.col}`,
+      row: coord.row,
+      col: coord.col,
+      neighbors,
+      fillStyle: state.fillStyle,
+      adjacency: mask,
+      regionId: state.regionId,
+    });
+  }
+
+  readCellState(coord: GridCellCoord): CellState {
+    const cell = this.getCell(coord);
+    return cell && { fillStyle: cell.fillStyle, regionId: cell.regionId };
+  }
+
+  recordCellState(coord: GridCellCoord) {
+    this.eventBatch?.recordCell(coord, this.readCellState(coord));
+    if (!this.history.isRecording) return;
+    this.history.record(coord, this.readCellState(coord));
+  }
+
+  // groups every cell mutation made inside fn into one undoable step;
+  // nested calls join the transaction that is already open
+  transact(fn: () => void) {
+    if (this.history.isRecording) {
+      fn();
+      return;
     }
 
-    return mask;
+    this.beginTransaction();
+    fn();
+    this.commitTransaction();
   }
 
-  setMaskBit(mask: number, bit: CardinalBit) {
-    return mask | bit;
+  beginTransaction() {
+    this.history.begin(
+      this.nextRegionId,
+      this.activeFloor.id,
+      this.activeLayer.id
+    );
+    this.beginEventBatch();
   }
 
-  unsetMaskBit(mask: number, bit: CardinalBit) {
-    return mask & ~bit;
+  commitTransaction() {
+    const transaction = this.history.commit(
+      {
+        readCell: (coord) => this.readCellState(coord),
+        readRegion: (regionId) => this.regionMeta.get(regionId),
+        readRegionParent: (label) => this.regionIndex.getParent(label),
+      },
+      this.nextRegionId
+    );
+    if (transaction) this.publishTransaction(transaction, "after");
+    this.emitEventBatch(transaction);
+    this.handleMapChange();
+    this.applyQueuedRemoteEdits();
+
+    return transaction;
   }
 
-  isBitSet(mask: number, bit: CardinalBit) {
-    return (mask & bit) === bit;
+  // takes back the open transaction as if it never happened: nothing is
+  // published or reported, and undo & redo are left alone
+  rollbackTransaction() {
+    this.eventBatch = undefined;
+    this.history.rollback({
+      writeCell: (coord, state) => this.restoreCell(coord, state),
+      writeRegion: (regionId, meta) => this.setRegionMeta(regionId, meta),
+      writeRegionParent: (label, parent) =>
+        this.regionIndex.setParent(label, parent),
+    });
+    this.regionCells.clear();
+    this.handleMapChange();
+    this.applyQueuedRemoteEdits();
   }
 
-  setCell(coord: GridCellCoord, cell: GridCell) {
-    this.cellData[coord.row][coord.col] = cell;
-    this.informAdjacentNeighbors(cell);
+  // cells first, so region metadata finds the regions it's anchored to
+  applyQueuedRemoteEdits() {
+    const ops = this.queuedRemoteOps;
+    const regionMetaOps = this.queuedRemoteRegionMeta;
+    this.queuedRemoteOps = [];
+    this.queuedRemoteRegionMeta = [];
+
+    this.applyRemoteOps(ops);
+    this.applyRemoteRegionMeta(regionMetaOps);
   }
 
-  getCell(coord: GridCellCoord): GridCell | undefined {
-    return this.cellData[coord.row]?.[coord.col];
+  // nested edits join the batch that is already open
+  beginEventBatch() {
+    if (this.eventBatch || !this.events.hasListeners()) return;
+
+    this.eventBatch = new EditEventBatch(
+      this.activeFloor.id,
+      this.activeLayer.id
+    );
   }
 
-  updateCell(coord: GridCellCoord, update: Partial<GridCell>) {
-    const cell = this.getCell(coord);
-    if (!cell) return;
+  // reads the cells' current state, so it runs on the layer the batch edited
+  emitEventBatch(regionEdits: RegionEdits | undefined) {
+    const batch = this.eventBatch;
+    if (!batch) return;
+    this.eventBatch = undefined;
+
+    const { floorId, layerId } = batch;
+    const changes = batch.getCellChanges((coord) => this.readCellState(coord));
+    const erased = changes.filter(({ after }) => !after);
+    const painted = changes.filter(
+      ({ before, after }) => after && after.fillStyle !== before?.fillStyle
+    );
 
-    Object.assign(cell, update);
-    if ("fillStyle" in update) {
-      this.informAdjacentNeighbors(cell);
+    if (changes.length) {
+      this.events.emit("cellsChanged", { floorId, layerId, changes });
+    }
+
+    if (erased.length) {
+      this.events.emit("cellErased", { floorId, layerId, changes: erased });
+    }
+    if (painted.length) {
+      this.events.emit("cellPainted", { floorId, layerId, changes: painted });
+    }
+    if (!regionEdits) return;
+
+    const { createdRegionIds, merges, splits } = regionEdits;
+    if (createdRegionIds.length) {
+      this.events.emit("regionCreated", {
+        floorId,
+        layerId,
+        regionIds: [...createdRegionIds],
+      });
+    }
+    // copies, so subscribers can't reach into the undo history
+    if (merges.length) {
+      this.events.emit("regionMerged", {
+        floorId,
+        layerId,
+        merges: structuredClone(merges),
+      });
+    }
+    if (splits.length) {
+      this.events.emit("regionSplit", {
+        floorId,
+        layerId,
+        splits: structuredClone(splits),
+      });
     }
   }
 
-  informAdjacentNeighbors(cell: GridCell) {
-    const { north, east, south, west } = cell.neighbors;
+  emitViewChange() {
+    const before = this.emittedViewTransform;
+    if (before === this.currentTransform) return;
 
-    if (north) {
-      const nextMask =
-        north.fillStyle === this.fillStyle
-          ? this.setMaskBit(north.adjacency, CardinalBit.South)
-          : this.unsetMaskBit(north.adjacency, CardinalBit.South);
-      north.adjacency = nextMask;
-      north.neighbors.south = cell;
+    this.emittedViewTransform = this.currentTransform;
+    this.events.emit("viewChanged", { before, after: this.currentTransform });
+  }
+
+  // undo & redo switch to the floor & layer the transaction edited
+  applyTransaction(transaction: Transaction, side: "before" | "after") {
+    this.setActiveFloor(transaction.floorId);
+    this.setActiveLayer(transaction.layerId);
+    this.beginEventBatch();
+
+    for (const change of transaction.parentChanges) {
+      this.regionIndex.setParent(change.label, change[side]);
     }
-    if (east) {
-      const nextMask =
-        east.fillStyle === this.fillStyle
-          ? this.setMaskBit(east.adjacency, CardinalBit.West)
-          : this.unsetMaskBit(east.adjacency, CardinalBit.West);
-      east.adjacency = nextMask;
-      east.neighbors.west = cell;
+    this.regionCells.clear();
+    for (const change of transaction.changes) {
+      this.restoreCell(change.coord, change[side]);
     }
-    if (south) {
-      const nextMask =
-        south.fillStyle === this.fillStyle
-          ? this.setMaskBit(south.adjacency, CardinalBit.North)
-          : this.unsetMaskBit(south.adjacency, CardinalBit.North);
-      south.adjacency = nextMask;
-      south.neighbors.north = cell;
+    for (const change of transaction.regionChanges) {
+      this.setRegionMeta(change.regionId, change[side]);
     }
-    if (west) {
-      const nextMask =
-        west.fillStyle === this.fillStyle
-          ? this.setMaskBit(west.adjacency, CardinalBit.East)
-          : this.unsetMaskBit(west.adjacency, CardinalBit.East);
-      west.adjacency = nextMask;
-      west.neighbors.east = cell;
+    this.emitEventBatch(
+      side === "after" ? transaction : invertRegionEdits(transaction)
+    );
+
+    // ids handed out since, e.g. to remote edits, must stay taken
+    this.nextRegionId = Math.max(
+      this.nextRegionId,
+      side === "before"
+        ? transaction.nextRegionIdBefore
+        : transaction.nextRegionIdAfter
+    );
+    const mouseCell = this.mouseCellCoord && this.getCell(this.mouseCellCoord);
+    this.mouseRegionId = mouseCell && this.getRegionId(mouseCell);
+    this.handleMapChange();
+
+    if (this.selectedRegionId !== undefined) {
+      const stillExists = this.cellData.some(
+        (cell) => this.getRegionId(cell) === this.selectedRegionId
+      );
+      this.selectRegion(stillExists ? this.selectedRegionId : undefined);
     }
+
+    this.shouldRender = true;
   }
 
-  getAdjacentLikeRegionIds(neighbors: CellNeighbors) {
-    const adjacentRegions = new Set<number>();
-    Object.values(neighbors).forEach(
-      (n) => n?.fillStyle === this.fillStyle && adjacentRegions.add(n.regionId)
-    );
+  undo() {
+    const transaction = this.history.undo();
+    if (!transaction) return;
 
-    return [...adjacentRegions];
+    this.applyTransaction(transaction, "before");
+    this.publishTransaction(transaction, "before");
+    this.clearCellSelection();
   }
 
-  getPotentiallyCleavedNeighbors(cell: GridCell, regionId: number) {
-    const dirs: Array<keyof CellNeighbors> = [];
+  redo() {
+    const transaction = this.history.redo();
+    if (!transaction) return;
 
-    Object.entries(cell.neighbors).forEach(([key, neighbor]) => {
-      if (neighbor?.regionId === regionId) {
-        dirs.push(key as keyof CellNeighbors);
-      }
+    this.applyTransaction(transaction, "after");
+    this.publishTransaction(transaction, "after");
+    this.clearCellSelection();
+  }
+
+  connectCollab(url: string, name: string) {
+    this.disconnectCollab();
+
+    this.collab = new CollabClient(url, name, {
+      onSnapshot: (ops, regionMetaOps) => {
+        this.applyRemoteOps(ops);
+        this.applyRemoteRegionMeta(regionMetaOps);
+        // whatever this client had that the session doesn't know joins it
+        this.collab?.seed(this.getLocalCells(), this.getLocalRegionMeta());
+      },
+      onOps: (ops) => this.applyRemoteOps(ops),
+      onRegionMeta: (ops) => this.applyRemoteRegionMeta(ops),
+      onCursor: (cursor) => {
+        if (cursor.position) {
+          this.remoteCursors.set(cursor.clientId, cursor);
+        } else {
+          this.remoteCursors.delete(cursor.clientId);
+        }
+        this.shouldRender = true;
+      },
+      onLeave: (clientId) => {
+        this.remoteCursors.delete(clientId);
+        this.shouldRender = true;
+      },
+      onStatusChange: () => this.onCollabChange?.(),
     });
+    this.onCollabChange?.();
+  }
 
-    return dirs.length > 1 ? dirs : [];
+  disconnectCollab() {
+    if (!this.collab) return;
+
+    this.collab.close();
+    this.collab = undefined;
+    this.queuedRemoteOps = [];
+    this.queuedRemoteRegionMeta = [];
+    this.remoteCursors.clear();
+    this.shouldRender = true;
+    this.onCollabChange?.();
   }
 
-  parseCellId(id: string) {
-    return id.split(".");
+  getLocalCells() {
+    return this.floors.flatMap((floor) =>
+      floor.layers.flatMap((layer) =>
+        layer.cellData.toArray().map(({ row, col, fillStyle }) => ({
+          floorId: floor.id,
+          layerId: layer.id,
+          row,
+          col,
+          fill: fillStyle,
+        }))
+      )
+    );
   }
 
-  searchRegionForCells(
-    startCell: GridCell | undefined,
-    searchIds: Set<string>
+  getLocalRegionMeta() {
+    return this.floors.flatMap((floor) =>
+      floor.layers.flatMap((layer) => {
+        const regions = groupCellsByRegion(layer.cellData.toArray(), (cell) =>
+          layer.getRegionId(cell)
+        );
+
+        return [...layer.regionMeta].flatMap(([regionId, meta]) => {
+          const anchor = getRegionAnchor(regions.get(regionId) ?? []);
+          if (!anchor) return [];
+          return [{ floorId: floor.id, layerId: layer.id, ...anchor, meta }];
+        });
+      })
+    );
+  }
+
+  // the cell states on one side of a local transaction, as ops for the others
+  publishTransaction(transaction: Transaction, side: "before" | "after") {
+    if (!this.collab) return;
+
+    // cells that only moved to another region weren't edited here; each
+    // peer relabels them itself, and sending their fill would overwrite
+    // whatever another client painted there meanwhile
+    const ops = transaction.changes
+      .filter(({ before, after }) => before?.fillStyle !== after?.fillStyle)
+      .map((change) => ({
+        ...change.coord,
+        fill: change[side]?.fillStyle ?? null,
+      }));
+
+    this.collab.publishCells(transaction.floorId, transaction.layerId, ops);
+    this.publishRegionMeta(
+      transaction.regionChanges.map((change) => ({
+        regionId: change.regionId,
+        meta: change[side],
+      }))
+    );
+  }
+
+  // on the active layer; regions that are gone have nothing to anchor to,
+  // and the others drop them along with their cells
+  publishRegionMeta(
+    changes: Array<{ regionId: number; meta: RegionMeta | undefined }>
   ) {
-    const visited = new Set<string>();
-    const foundIds = new Set<string>();
-    if (!startCell) return foundIds;
+    if (!this.collab) return;
 
-    const visitCell = (currentCell: GridCell) => {
-      if (visited.has(currentCell.id) || foundIds.size === searchIds.size)
-        return;
-      visited.add(currentCell.id);
+    const entries = changes.flatMap(({ regionId, meta }) => {
+      const anchor = getRegionAnchor(this.getRegionCells(regionId));
+      return anchor ? [{ ...anchor, meta: meta ?? null }] : [];
+    });
+    this.collab.publishRegionMeta(
+      this.activeFloor.id,
+      this.activeLayer.id,
+      entries
+    );
+  }
+
+  /**
+   * Paints ops from other clients with the usual region bookkeeping, so each
+   * client derives its region ids from the cells itself. They're applied on
+   * their own floor & layer without switching the view, and aren't recorded:
+   * undo only takes back this client's edits, and none it can't take back
+   * cleanly any more. Region ids are never sent; region metadata goes by
+   * anchor cell instead, see applyRemoteRegionMeta.
+   */
+  applyRemoteOps(ops: CellOp[]) {
+    if (!ops.length) return;
+    if (this.history.isRecording) {
+      this.queuedRemoteOps.push(...ops);
+      return;
+    }
 
-      if (currentCell.regionId !== startCell.regionId) return;
+    const viewFloor = this.activeFloor;
+    const viewLayers = new Map(
+      this.floors.map((floor) => [floor, floor.activeLayer])
+    );
+    const groups = new Map<string, Map<string | null, GridCellCoord[]>>();
+    // ops come in the order they won, so only the last one per cell counts
+    const latestOps = new Map(ops.map((op) => [cellOpKey(op), op]));
+
+    for (const op of latestOps.values()) {
+      const groupKey = JSON.stringify([op.floorId, op.layerId]);
+      const group = groups.get(groupKey) ?? new Map();
+      const coords = group.get(op.fill) ?? [];
+      coords.push({ row: op.row, col: op.col });
+      group.set(op.fill, coords);
+      groups.set(groupKey, group);
+    }
 
-      if (searchIds.has(currentCell.id)) {
-        foundIds.add(currentCell.id);
-      }
+    const selectedRegionId = this.selectedRegionId;
+    this.isApplyingRemote = true;
+
+    groups.forEach((group, groupKey) => {
+      const [floorId, layerId]: [string, string] = JSON.parse(groupKey);
+      const floor = this.ensureFloor(floorId);
+      const layer = floor.layers.find(({ id }) => id === layerId);
+      if (!layer) return;
+
+      this.activeFloor = floor;
+      this.activeLayer = layer;
+      // extents only follow the floor in view, and the selection the layer
+      if (floor !== viewFloor) this.paintedExtentsStale = true;
+      const isViewLayer =
+        floor === viewFloor && layer === viewLayers.get(floor);
+      if (!isViewLayer) this.selectedRegionId = undefined;
+
+      this.history.begin(this.nextRegionId, floorId, layerId);
+      this.beginEventBatch();
+      group.forEach((coords, fill) => {
+        if (fill === null) this.eraseCells(coords);
+        else this.paintCells(coords, fill);
+      });
+      const remoteEdit = this.history.abort();
+      if (remoteEdit) this.history.dropOverlapping(remoteEdit);
+      this.emitEventBatch(remoteEdit);
 
-      for (const neighbor of Object.values(currentCell.neighbors)) {
-        if (!neighbor) continue;
-        visitCell(neighbor);
-      }
-    };
+      if (!isViewLayer) this.selectedRegionId = selectedRegionId;
+    });
 
-    visitCell(startCell);
+    this.isApplyingRemote = false;
+    this.activeFloor = viewFloor;
+    viewLayers.forEach((layer, floor) => (floor.activeLayer = layer));
 
-    return foundIds;
+    const mouseCell = this.mouseCellCoord && this.getCell(this.mouseCellCoord);
+    this.mouseRegionId = mouseCell && this.getRegionId(mouseCell);
+    this.shouldRender = true;
+    this.handleMapChange();
   }
 
-  getCellCoord(cell: GridCell) {
-    return { row: cell.row, col: cell.col };
+  /**
+   * Region metadata from other clients, on whichever region holds its anchor
+   * cell here. Like remote cells it isn't recorded, and the undo steps it
+   * would clash with are dropped.
+   */
+  applyRemoteRegionMeta(ops: RegionMetaOp[]) {
+    if (!ops.length) return;
+    if (this.history.isRecording) {
+      this.queuedRemoteRegionMeta.push(...ops);
+      return;
+    }
+
+    // oldest first, so the newest write to a region is the one that stays
+    const sortedOps = [...ops].sort((a, b) => (isNewerOp(a, b) ? 1 : -1));
+
+    for (const op of sortedOps) {
+      const layer = this.floors
+        .find(({ id }) => id === op.floorId)
+        ?.layers.find(({ id }) => id === op.layerId);
+      const cell = layer?.cellData.get(op);
+      if (!layer || !cell) continue;
+
+      const regionId = layer.getRegionId(cell);
+      const meta = layer.regionMeta.get(regionId);
+      // e.g. a joining client offering what it just got; undo can stay
+      if (JSON.stringify(meta ?? null) === JSON.stringify(op.meta)) continue;
+
+      this.history.begin(layer.nextRegionId, op.floorId, op.layerId);
+      this.history.recordRegion(regionId, meta);
+      if (op.meta) {
+        layer.regionMeta.set(regionId, { ...op.meta });
+      } else {
+        layer.regionMeta.delete(regionId);
+      }
+      const remoteEdit = this.history.abort();
+      if (remoteEdit) this.history.dropOverlapping(remoteEdit);
+    }
+
+    // the inspector shows the selected region's metadata
+    if (this.selectedRegionId !== undefined) {
+      this.selectRegion(this.selectedRegionId);
+    }
+    this.shouldRender = true;
+    this.handleMapChange();
   }
 
-  floodFill(
-    startCell: GridCell,
-    conditionFn: (cell: GridCell) => boolean,
-    update: (cell: GridCell) => void
-  ) {
-    const visited = new Set<string>();
+  // ops can arrive for a floor another client added
+  ensureFloor(floorId: string) {
+    let floor = this.floors.find(({ id }) => id === floorId);
+    if (!floor) {
+      floor = new MapFloor(floorId, floorId);
+      this.floors.push(floor);
+      this.onFloorsChange?.();
+    }
+    return floor;
+  }
 
-    // walk all connected cells and update their regionId
-    const visitCell = (currentCell: GridCell) => {
-      if (visited.has(currentCell.id)) return;
-      visited.add(currentCell.id);
+  toMapFile() {
+    return serializeMap({
+      cellSize: this.cellSize,
+      scale: this.mapScale,
+      transform: this.currentTransform,
+      floors: this.floors.map((floor) => ({
+        ...floor.settings,
+        underlay: floor.underlay,
+        layers: floor.layers.map((layer) => ({
+          ...layer.settings,
+          cells: layer.cellData.toArray(),
+          nextRegionId: layer.nextRegionId,
+          regionMeta: layer.regionMeta,
+          getRegionId: (cell) => layer.getRegionId(cell),
+        })),
+      })),
+      connectors: this.connectors,
+      products: [...this.products.values()].map((product) =>
+        this.resolveProductLocation(product)
+      ),
+      palette: this.palette,
+      bookmarks: this.bookmarks,
+      annotations: this.annotations,
+    });
+  }
 
-      if (conditionFn(currentCell)) {
-        update(currentCell);
+  // files keep each cell's root region but not the labels merged into it, so
+  // a product placed on a since-merged region is saved with the root
+  resolveProductLocation(product: Product): Product {
+    const { location } = product;
+    if (!location || !isRegionLocation(location)) return product;
 
-        for (const dir of directions) {
-          const neighbor = currentCell.neighbors[dir];
-          if (!neighbor) continue;
-          visitCell(neighbor);
-        }
-      }
+    const layer = this.getFloor(location.floorId).getLayer(location.layerId);
+    return {
+      ...product,
+      location: {
+        ...location,
+        regionId: layer.regionIndex.find(location.regionId),
+      },
     };
+  }
 
-    visitCell(startCell);
+  // exports the active floor; hidden layers are left out
+  toSvg() {
+    return exportSvg(
+      this.layers
+        .filter((layer) => layer.visible)
+        .map((layer) => ({
+          id: layer.id,
+          name: layer.name,
+          opacity: layer.opacity,
+          cells: layer.cellData.toArray(),
+          regionMeta: layer.regionMeta,
+          getRegionId: (cell) => layer.getRegionId(cell),
+        })),
+      { cellSize: this.cellSize }
+    );
   }
 
-  // TODO: is this walking all cells, and not just region cells?
-  setIdForRegion(startCell: GridCell, prevRegionId?: number) {
-    this.floodFill(
-      startCell,
-      (cell) => cell.fillStyle === startCell.fillStyle,
-      (cell) => this.updateCell(cell, { regionId: startCell.regionId })
+  // the active floor's visible layers, like toSvg
+  toGeoJson(transform: GeoJsonTransform) {
+    return exportGeoJson(
+      this.layers
+        .filter((layer) => layer.visible)
+        .map((layer) => ({
+          id: layer.id,
+          cells: layer.cellData.toArray(),
+          regionMeta: layer.regionMeta,
+          getRegionId: (cell) => layer.getRegionId(cell),
+        })),
+      this.activeFloor.id,
+      transform
     );
+  }
 
-    // if neighbor is potentiall cleaved, update regionIds
-    // pessimistic fill off the cuff seems similar to search then fill perf
-    if (prevRegionId !== undefined) {
-      const dirsToCheck = this.getPotentiallyCleavedNeighbors(
-        startCell,
-        prevRegionId
-      );
+  /**
+   * Paints the polygons onto the active layer as one undoable step. Colors
+   * missing from the palette are added to it, features without one get the
+   * current fill. Returns how many cells the polygons cover.
+   */
+  importGeoJson(raw: unknown, transform: GeoJsonTransform) {
+    if (!this.canEditActiveLayer) {
+      throw new Error("The active layer is locked or hidden");
+    }
 
-      if (dirsToCheck.length) {
-        for (const dir of dirsToCheck) {
-          const neighbor = startCell.neighbors[dir];
+    const polygons = parseGeoJsonPolygons(raw, transform).map(
+      ({ rings, properties }) => ({
+        cells: rasterizePolygon(rings),
+        fillStyle: getFeatureColor(properties) ?? this.fillStyle,
+        meta: getFeatureRegionMeta(properties),
+      })
+    );
+    const imported = polygons.flatMap(({ cells }) => cells);
+    if (!imported.length) throw new Error("GeoJSON polygons cover no cells");
+
+    this.transact(() => {
+      for (const { cells, fillStyle, meta } of polygons) {
+        if (!cells.length) continue;
+        if (!findPaletteEntry(this.palette, fillStyle)) {
+          this.addPaletteEntry(fillStyle);
+        }
 
-          if (neighbor?.regionId === prevRegionId) {
-            const nextRegionId = this.nextRegionId++;
+        this.paintCells(cells, fillStyle);
 
-            this.floodFill(
-              neighbor,
-              (cell) => cell.regionId === prevRegionId,
-              (cell) => this.updateCell(cell, { regionId: nextRegionId })
-            );
-          }
-        }
+        const cell = meta && this.getCell(cells[0]);
+        if (!cell) continue;
+
+        const regionId = this.getRegionId(cell);
+        this.setRegionMeta(
+          regionId,
+          mergeRegionMeta(this.regionMeta.get(regionId), [meta])
+        );
       }
-    }
+    });
+
+    this.zoomToCells(imported);
+    return imported.length;
   }
 
-  shouldPaintCell(cellCoord: GridCellCoord) {
-    return (
-      this.cellData[cellCoord.row]?.[cellCoord.col]?.fillStyle !==
-      this.fillStyle
+  // a loaded file replaces the map, which a session can't take cell by cell;
+  // joining again merges it in
+  loadMapFile(file: StoreMapFile) {
+    this.disconnectCollab();
+    this.handlePointerUp();
+    this.clearCellSelection();
+    this.history.clear();
+    this.minPaintedCoord = undefined;
+    this.maxPaintedCoord = undefined;
+
+    this.cellSize = file.grid.cellSize;
+    this.mapScale = file.grid.scale;
+    if (this.mapScale) this.measureUnit = this.mapScale.unit;
+    this.calibrationPoints = [];
+    this.measurement = undefined;
+
+    this.viewAnimation = undefined;
+    this.setViewTransform(new DOMMatrix(file.view));
+
+    this.underlayImages.clear();
+    this.floors = file.floors.map((fileFloor) => {
+      const floor = new MapFloor(fileFloor.id, fileFloor.name);
+      floor.underlay = fileFloor.underlay;
+      floor.setLayers(
+        fileFloor.layers.map((fileLayer) => {
+          const layer = new MapLayer(fileLayer.id, fileLayer.name);
+          layer.visible = fileLayer.visible;
+          layer.locked = fileLayer.locked;
+          layer.opacity = fileLayer.opacity;
+          return layer;
+        })
+      );
+      return floor;
+    });
+
+    file.floors.forEach((fileFloor, i) => {
+      // restoreCell works on the active floor & layer
+      this.activeFloor = this.floors[i];
+
+      fileFloor.layers.forEach((fileLayer, j) => {
+        this.activeLayer = this.layers[j];
+
+        let maxRegionId = -1;
+        for (const [row, col, colorIndex, regionId] of fileLayer.cells) {
+          this.restoreCell(
+            { row, col },
+            { fillStyle: file.colors[colorIndex], regionId }
+          );
+          maxRegionId = Math.max(maxRegionId, regionId);
+        }
+        this.nextRegionId = Math.max(fileLayer.nextRegionId, maxRegionId + 1);
+
+        for (const { id, ...meta } of fileLayer.regions) {
+          this.regionMeta.set(id, meta);
+        }
+      });
+      this.activeLayer = this.layers[0];
+    });
+    this.activeFloor = this.floors[0];
+    // extents were grown by every floor's cells
+    this.updatePaintedExtents();
+
+    this.connectors = file.connectors;
+    this.activeConnectorId = undefined;
+
+    this.products = new Map(
+      file.products.map((product) => [product.sku, product])
     );
+    this.highlightedProductSku = undefined;
+    this.clearRoute();
+
+    this.palette = file.palette;
+    if (this.palette.length) this.fillStyle = this.palette[0].color;
+
+    this.bookmarks = file.bookmarks;
+    this.annotations = file.annotations;
+    this.activeAnnotationId = undefined;
+    this.minimapStale = true;
+    this.regionLabels = undefined;
+
+    this.mouseRegionId = undefined;
+    this.selectRegion(undefined);
+    this.shouldRender = true;
+    this.onFloorsChange?.();
+    this.onLayersChange?.();
+    this.onConnectorsChange?.();
+    this.onProductsChange?.();
+    this.onPaletteChange?.();
+    this.onBookmarksChange?.();
+    this.onAnnotationsChange?.();
+    this.onUnderlayChange?.();
+    this.onMapScaleChange?.();
+    this.onCalibrationChange?.();
+    this.onMeasurementChange?.();
+    this.onMapChange?.();
   }
 
-  paintCell(cellCoord: GridCellCoord) {
-    if (!this.shouldPaintCell(cellCoord)) return;
+  handleKeyDown = (e: KeyboardEvent) => {
+    if (e.altKey) return;
+    if (e.target instanceof HTMLElement && e.target.closest("input, textarea"))
+      return;
+
+    const key = e.key.toLowerCase();
+
+    if (e.ctrlKey || e.metaKey) {
+      const actions: Record<string, () => void> = {
+        z: e.shiftKey ? this.redo : this.undo,
+        y: this.redo,
+        c: this.copySelection,
+        x: this.cutSelection,
+        v: this.pasteClipboard,
+      };
+      const action = actions[key];
+      if (!action) return;
+
+      e.preventDefault();
+      action.call(this);
+      return;
+    }
 
-    if (!this.cellData[cellCoord.row]) {
-      this.cellData[cellCoord.row] = [];
+    if (key === "escape" && this.activeConnectorId !== undefined) {
+      this.setActiveConnector(undefined);
     }
 
-    const neighbors = this.getCellNeighbors(cellCoord);
-    const adjacentLikeRegionIds = this.getAdjacentLikeRegionIds(neighbors);
+    const annotationId = this.activeAnnotationId;
+    if (annotationId !== undefined) {
+      const annotationActions: Record<string, () => void> = {
+        delete: () => this.removeAnnotation(annotationId),
+        backspace: () => this.removeAnnotation(annotationId),
+        escape: () => this.setActiveAnnotation(undefined),
+      };
+      const annotationAction = annotationActions[key];
+      if (annotationAction) {
+        e.preventDefault();
+        annotationAction();
+        return;
+      }
+    }
 
-    const prevRegionId = this.getCell(cellCoord)?.regionId;
-    const regionId = adjacentLikeRegionIds[0] ?? this.nextRegionId++;
-    const mask = this.makeAdjacencyMask(neighbors);
+    if (!this.cellSelection.size) return;
 
-    const cell: GridCell = {
-      id: `${cellCoord.row}.${cellCoord.col}`,
-      row: cellCoord.row,
-      col: cellCoord.col,
-      neighbors,
-      fillStyle: this.fillStyle,
-      adjacency: parseInt(mask.toString(2), 2),
-      regionId,
+    const selectionActions: Record<string, () => void> = {
+      delete: () => this.deleteSelection(),
+      backspace: () => this.deleteSelection(),
+      escape: () => this.clearCellSelection(),
+      r: () => this.rotateSelection(),
+      h: () => this.flipSelection("horizontal"),
+      v: () => this.flipSelection("vertical"),
     };
+    const selectionAction = selectionActions[key];
+    if (!selectionAction) return;
 
-    this.setCell(cellCoord, cell);
-    this.setIdForRegion(cell, prevRegionId);
-
-    this.shouldRender = true;
-  }
+    e.preventDefault();
+    selectionAction();
+  };
 
   handlePointerDown = (e: PointerEvent) => {
     this.transferMouseToWindow();
 
-    switch (e.button) {
+    // a click on the minimap jumps there, then dragging pans
+    const minimapCoord =
+      e.button === 0 &&
+      this.getMinimapWorldCoord({ x: e.clientX, y: e.clientY });
+    if (minimapCoord) {
+      this.cursorMode = CursorMode.Minimap;
+      this.centerViewOn(minimapCoord);
+      return;
+    }
+
+    if (e.pointerType === "touch") {
+      this.touchPoints.set(e.pointerId, { x: e.clientX, y: e.clientY });
+      if (this.touchPoints.size === 2) this.startPinch();
+      if (this.touchPoints.size > 1) return;
+      if (!this.readOnly) this.startLongPress({ x: e.clientX, y: e.clientY });
+    }
+
+    if (this.readOnly) {
+      if (e.button !== 0 && e.button !== 1) return;
+      this.cursorMode = CursorMode.Pan;
+      this.pressStart = { x: e.clientX, y: e.clientY };
+      return;
+    }
+
+    // the eraser end of a pen erases like the right button
+    switch (isEraserEvent(e) ? 2 : e.button) {
       case 0: {
-        this.cursorMode = CursorMode.Paint;
         const cellCoord = this.eventToCellCoord(e);
-        this.paintCell(cellCoord);
+
+        // Alt-click inspects regions whatever the tool
+        if (e.altKey || this.tool === Tool.Inspect) {
+          const cell = this.getCell(cellCoord);
+          this.selectRegion(cell && this.getRegionId(cell));
+          break;
+        }
+
+        if (this.tool === Tool.Select) {
+          this.handleSelectPointerDown(cellCoord, e.shiftKey);
+          break;
+        }
+
+        if (this.tool === Tool.Bucket) {
+          this.bucketFill(cellCoord);
+          break;
+        }
+
+        if (this.tool === Tool.Route) {
+          this.setRoutePoint(cellCoord);
+          break;
+        }
+
+        if (this.tool === Tool.Connector) {
+          this.placeConnectorEnd(cellCoord);
+          break;
+        }
+
+        if (this.tool === Tool.Annotate) {
+          this.handleAnnotatePointerDown(
+            this.viewportToWorld({ x: e.clientX, y: e.clientY })
+          );
+          break;
+        }
+
+        if (this.tool === Tool.Measure) {
+          this.startMeasurement(
+            this.viewportToWorld({ x: e.clientX, y: e.clientY })
+          );
+          break;
+        }
+
+        if (this.tool === Tool.Calibrate) {
+          this.addCalibrationPoint(
+            this.viewportToWorld({ x: e.clientX, y: e.clientY })
+          );
+          break;
+        }
+
+        if (isShapeTool(this.tool)) {
+          this.cursorMode = CursorMode.Shape;
+          this.shapeStart = cellCoord;
+          this.shapePreview = getShapeCells(this.tool, cellCoord, cellCoord);
+          this.shouldRender = true;
+          break;
+        }
+
+        this.cursorMode = CursorMode.Paint;
+        this.beginTransaction();
+        this.paintAt(e, cellCoord);
         break;
       }
       case 1: {
         this.cursorMode = CursorMode.Pan;
         break;
       }
-      case 2:
-        // this.cursorMode = CursorMode.Erase;
+      case 2: {
+        this.cursorMode = CursorMode.Erase;
+        this.beginTransaction();
+        const cellCoord = this.eventToCellCoord(e);
+        this.eraseAt(e, cellCoord);
         break;
+      }
     }
   };
 
-  handlePointerMove = (e: PointerEvent) => {
+  handlePointerMove = (e: PointerEvent) => {
+    const touchStart = this.touchPoints.get(e.pointerId);
+    if (touchStart) {
+      const touchPoint = { x: e.clientX, y: e.clientY };
+      this.touchPoints.set(e.pointerId, touchPoint);
+
+      if (this.cursorMode === CursorMode.Pinch) {
+        this.handlePinch();
+        return;
+      }
+      if (
+        this.longPressStart &&
+        pointDistance(this.longPressStart, touchPoint) > LONG_PRESS_SLOP
+      ) {
+        this.cancelLongPress();
+      }
+    }
+
+    if (
+      this.pressStart &&
+      pointDistance(this.pressStart, { x: e.clientX, y: e.clientY }) >
+        CLICK_SLOP
+    ) {
+      this.pressStart = undefined;
+    }
+
     const worldCoord = this.viewportToWorld({ x: e.clientX, y: e.clientY });
     const cellCoord = this.worldCoordToCellCoord(worldCoord);
 
     this.mousePos = worldCoord;
-    this.mouseRegionId = this.getCell(cellCoord)?.regionId;
+    this.collab?.publishCursor(this.activeFloor.id, worldCoord);
+    const mouseCell = this.getCell(cellCoord);
+    this.mouseRegionId = mouseCell && this.getRegionId(mouseCell);
 
     const isSameCell = this.isSameCell(cellCoord, this.mouseCellCoord);
 
     if (!isSameCell) {
       this.mouseCellCoord = cellCoord;
       this.shouldRender = true;
+      this.onCellHover?.(cellCoord);
     }
 
     switch (this.cursorMode) {
       case CursorMode.Pan:
         this.handlePan(e);
         break;
+      case CursorMode.Minimap:
+        this.handleMinimapDrag(e);
+        break;
+      case CursorMode.Measure:
+        this.updateMeasurement(worldCoord);
+        break;
+      case CursorMode.MoveAnnotation: {
+        const { activeAnnotationId, annotationGrab } = this;
+        if (activeAnnotationId === undefined || !annotationGrab) break;
+
+        this.updateAnnotation(activeAnnotationId, {
+          x: worldCoord.x - annotationGrab.x,
+          y: worldCoord.y - annotationGrab.y,
+        });
+        break;
+      }
       case CursorMode.Paint: {
         const coalesced = e.getCoalescedEvents();
         for (const subEvent of coalesced) {
           const coord = this.eventToCellCoord(subEvent);
-          this.paintCell(coord);
+          this.paintAt(subEvent, coord);
+        }
+        break;
+      }
+      case CursorMode.Erase: {
+        const coalesced = e.getCoalescedEvents();
+        for (const subEvent of coalesced) {
+          const coord = this.eventToCellCoord(subEvent);
+          this.eraseAt(subEvent, coord);
+        }
+        break;
+      }
+      case CursorMode.Marquee:
+        break;
+      case CursorMode.Move: {
+        if (this.moveStart && !isSameCell) {
+          this.moveOffset = {
+            row: cellCoord.row - this.moveStart.row,
+            col: cellCoord.col - this.moveStart.col,
+          };
+        }
+        break;
+      }
+      case CursorMode.Shape: {
+        if (this.shapeStart && !isSameCell) {
+          this.shapePreview = getShapeCells(
+            this.tool,
+            this.shapeStart,
+            cellCoord
+          );
         }
         break;
       }
@@ -699,11 +4189,177 @@ class Canvas {
   };
 
   handlePointerUp = () => {
+    if (this.pressStart) {
+      this.handleRegionClick(this.pressStart);
+      this.pressStart = undefined;
+    }
+    if (
+      this.cursorMode === CursorMode.Paint ||
+      this.cursorMode === CursorMode.Erase
+    ) {
+      this.commitTransaction();
+    }
+    if (this.cursorMode === CursorMode.Marquee) {
+      this.handleMarqueeEnd();
+    }
+    if (this.cursorMode === CursorMode.Move) {
+      const offset = this.moveOffset;
+      this.moveStart = undefined;
+      this.moveOffset = undefined;
+      if (offset && (offset.row || offset.col)) this.moveSelection(offset);
+      this.shouldRender = true;
+    }
+    if (this.cursorMode === CursorMode.Shape) {
+      this.paintCells(this.shapePreview);
+      this.shapeStart = undefined;
+      this.shapePreview = [];
+    }
+    this.annotationGrab = undefined;
+    this.cursorMode = CursorMode.Rest;
+  };
+
+  // pen pressure widens the brush
+  paintAt(e: PointerEvent, cellCoord: GridCellCoord) {
+    const radius = penRadius(e);
+    if (radius) this.paintCells(brushCells(cellCoord, radius));
+    else this.paintCell(cellCoord);
+  }
+
+  eraseAt(e: PointerEvent, cellCoord: GridCellCoord) {
+    const radius = penRadius(e);
+    if (radius) this.eraseCells(brushCells(cellCoord, radius));
+    else this.eraseCell(cellCoord);
+  }
+
+  /**
+   * A second finger turns whatever the first one started into a pinch, so
+   * the stroke, shape or marquee it began is taken back.
+   */
+  cancelPointerAction() {
+    if (
+      this.cursorMode === CursorMode.Paint ||
+      this.cursorMode === CursorMode.Erase
+    ) {
+      this.rollbackTransaction();
+    }
+
+    this.shapeStart = undefined;
+    this.shapePreview = [];
+    this.marqueeStart = undefined;
+    this.moveStart = undefined;
+    this.moveOffset = undefined;
+    this.pressStart = undefined;
     this.cursorMode = CursorMode.Rest;
+    this.shouldRender = true;
+  }
+
+  handleRegionClick(viewportCoord: XYCoord) {
+    const cell = this.getCell(
+      this.worldCoordToCellCoord(this.viewportToWorld(viewportCoord))
+    );
+    if (cell) this.onRegionClick?.(this.getRegionId(cell));
+  }
+
+  setHighlightedRegions(regionIds: number[]) {
+    this.highlightedRegionIds = regionIds;
+    this.shouldRender = true;
+  }
+
+  startPinch() {
+    this.cancelLongPress();
+    this.cancelPointerAction();
+
+    const [a, b] = [...this.touchPoints.values()];
+    this.pinch = { distance: pointDistance(a, b), midpoint: midpoint(a, b) };
+    this.cursorMode = CursorMode.Pinch;
+  }
+
+  // two fingers pan with their midpoint and zoom with their spread
+  handlePinch() {
+    const [a, b] = [...this.touchPoints.values()];
+    if (!this.pinch || !b) return;
+
+    const distance = pointDistance(a, b);
+    const center = midpoint(a, b);
+
+    this.panBy(
+      center.x - this.pinch.midpoint.x,
+      center.y - this.pinch.midpoint.y
+    );
+    if (this.pinch.distance > 0) {
+      this.zoomAt(center, (this.currentScale * distance) / this.pinch.distance);
+    }
+    this.pinch = { distance, midpoint: center };
+  }
+
+  // the pinch ends with the first finger lifted; the other one does nothing
+  releaseTouchPoint(pointerId: number) {
+    if (!this.touchPoints.delete(pointerId)) return;
+
+    this.cancelLongPress();
+    if (this.cursorMode === CursorMode.Pinch) {
+      this.pinch = undefined;
+      this.cursorMode = CursorMode.Rest;
+    }
+  }
+
+  // holding a finger still picks the region under it, like alt-click
+  startLongPress(viewportCoord: XYCoord) {
+    this.cancelLongPress();
+    this.longPressStart = viewportCoord;
+    this.longPressTimer = setTimeout(() => {
+      this.longPressTimer = undefined;
+      this.longPressStart = undefined;
+      this.cancelPointerAction();
+
+      const cell = this.getCell(
+        this.worldCoordToCellCoord(this.viewportToWorld(viewportCoord))
+      );
+      this.selectRegion(cell && this.getRegionId(cell));
+    }, LONG_PRESS_MS);
+  }
+
+  cancelLongPress() {
+    clearTimeout(this.longPressTimer);
+    this.longPressTimer = undefined;
+    this.longPressStart = undefined;
+  }
+
+  handleSelectPointerDown(cellCoord: GridCellCoord, shiftKey: boolean) {
+    if (shiftKey) {
+      this.toggleRegionSelection(cellCoord);
+      return;
+    }
+
+    if (this.cellSelection.has(coordKey(cellCoord))) {
+      this.cursorMode = CursorMode.Move;
+      this.moveStart = cellCoord;
+      return;
+    }
+
+    this.cursorMode = CursorMode.Marquee;
+    this.marqueeStart = cellCoord;
+    this.shouldRender = true;
+  }
+
+  handleMarqueeEnd() {
+    const start = this.marqueeStart;
+    const end = this.mouseCellCoord ?? start;
+    this.marqueeStart = undefined;
+    if (!start || !end) return;
+
+    this.setCellSelection(rectangleCells(start, end));
+  }
+
+  // right button is reserved for erasing
+  handleContextMenu = (e: MouseEvent) => {
+    e.preventDefault();
   };
 
   handlePointerLeave = () => {
+    this.collab?.publishCursor(this.activeFloor.id, undefined);
     this.mousePos = undefined;
+    if (this.mouseCellCoord) this.onCellHover?.(undefined);
     this.mouseCellCoord = undefined;
     this.mouseRegionId = undefined;
     this.shouldRender = true;
@@ -713,17 +4369,109 @@ class Canvas {
     this.fillStyle = color;
   }
 
+  addPaletteEntry(color: string) {
+    const entry = createPaletteEntry(this.palette, color);
+    this.palette = [...this.palette, entry];
+    this.onPaletteChange?.();
+    return entry;
+  }
+
+  updatePaletteEntry(id: string, update: Partial<Omit<PaletteEntry, "id">>) {
+    const entry = this.palette.find((paletteEntry) => paletteEntry.id === id);
+    if (!entry) return;
+
+    if (update.color !== undefined && update.color !== entry.color) {
+      this.recolorFill(entry.color, update.color);
+    }
+
+    this.palette = this.palette.map((paletteEntry) =>
+      paletteEntry === entry ? { ...entry, ...update } : paletteEntry
+    );
+    this.shouldRender = true;
+    this.onPaletteChange?.();
+  }
+
+  // cells painted with a removed entry keep their color
+  removePaletteEntry(id: string) {
+    this.palette = this.palette.filter((entry) => entry.id !== id);
+    this.shouldRender = true;
+    this.onPaletteChange?.();
+  }
+
+  isFillInUse(fillStyle: string) {
+    return (
+      this.palette.some(({ color }) => color === fillStyle) ||
+      this.getAllLayers().some((layer) =>
+        layer.cellData.some((cell) => cell.fillStyle === fillStyle)
+      )
+    );
+  }
+
+  /**
+   * Repaints every cell of one color with another, on every floor. The new
+   * color must be unused, so which cells share a fill doesn't change and
+   * adjacency masks and region ids all stay valid.
+   */
+  recolorFill(from: string, to: string) {
+    if (this.isFillInUse(to)) {
+      throw new Error(`${to} is already used on the map`);
+    }
+
+    for (const floor of this.floors) {
+      for (const layer of floor.layers) {
+        const recolored: GridCellCoord[] = [];
+        for (const cell of layer.cellData) {
+          if (cell.fillStyle !== from) continue;
+          cell.fillStyle = to;
+          recolored.push(this.getCellCoord(cell));
+        }
+        layer.cache.invalidateAll();
+        layer.regionCells.clear();
+
+        this.collab?.publishCells(
+          floor.id,
+          layer.id,
+          recolored.map((coord) => ({ ...coord, fill: to }))
+        );
+      }
+    }
+
+    this.history.renameFill(from, to);
+    if (this.fillStyle === from) this.fillStyle = to;
+    if (this.clipboard) {
+      this.clipboard = {
+        ...this.clipboard,
+        cells: this.clipboard.cells.map((cell) =>
+          cell.fillStyle === from ? { ...cell, fillStyle: to } : cell
+        ),
+      };
+    }
+    this.routeRules = {
+      ...this.routeRules,
+      blockedFills: this.routeRules.blockedFills.map((fill) =>
+        fill === from ? to : fill
+      ),
+    };
+
+    this.handleMapChange();
+  }
+
+  setShowLegend(showLegend: boolean) {
+    this.showLegend = showLegend;
+    this.shouldRender = true;
+  }
+
   worldCoordToCellCoord(coord: XYCoord) {
     return {
-      row: Math.floor(coord.y / this.cellSize) + this.gridOffset,
-      col: Math.floor(coord.x / this.cellSize) + this.gridOffset,
+      row: Math.floor(coord.y / this.cellSize),
+      col: Math.floor(coord.x / this.cellSize),
     };
   }
 
   cellCoordToWorldCoord(cell: GridCellCoord) {
     return {
-      x: (cell.col - this.gridOffset) * this.cellSize,
-      y: (cell.row - this.gridOffset) * this.cellSize,
+      x: cell.col * this.cellSize,
+      y: cell.row * this.cellSize,
     };
   }
 
@@ -751,14 +4499,301 @@ export const CanvasContainer = () => {
     }
   }, []);
 
+  const [tool, setTool] = useState(Tool.Brush);
+  const [selectedRegion, setSelectedRegion] = useState<{
+    id: number;
+    meta: RegionMeta;
+  }>();
+  const [floors, setFloors] = useState<FloorSettings[]>([]);
+  const [activeFloorId, setActiveFloorId] = useState("");
+  const [showFloorBelow, setShowFloorBelow] = useState(false);
+  const [connectors, setConnectors] = useState<{
+    connectors: Connector[];
+    activeConnectorId?: string;
+    kind: ConnectorKind;
+  }>({ connectors: [], kind: "stairs" });
+  const [collab, setCollab] = useState<{
+    status: CollabStatus;
+    peers: CollabPeer[];
+  }>({ status: "disconnected", peers: [] });
+  const [layers, setLayers] = useState<LayerSettings[]>([]);
+  const [activeLayerId, setActiveLayerId] = useState("");
+  const [products, setProducts] = useState<Product[]>([]);
+  const [routeRules, setRouteRules] = useState(defaultRouteRules);
+  const [route, setRoute] = useState<{ length?: number; hasTarget: boolean }>({
+    hasTarget: false,
+  });
+  const [pickSkus, setPickSkus] = useState<string[]>([]);
+  const [pickSelections, setPickSelections] = useState<PickTarget[]>([]);
+  const [pickRoute, setPickRoute] = useState<PickRoute>();
+  const [showStats, setShowStats] = useState(false);
+  const [palette, setPalette] = useState<PaletteEntry[]>([]);
+  const [fillStyle, setFillStyle] = useState("");
+  const [showLegend, setShowLegend] = useState(false);
+  const [bookmarks, setBookmarks] = useState<ViewBookmark[]>([]);
+  const [showMinimap, setShowMinimap] = useState(true);
+  const [underlay, setUnderlay] = useState<Underlay>();
+  const [mapScale, setMapScale] = useState<MapScale>();
+  const [calibrationDistance, setCalibrationDistance] = useState<number>();
+  const [measureDistances, setMeasureDistances] = useState<MeasureDistances>();
+  const [measureSnap, setMeasureSnap] = useState<MeasureSnap>("center");
+  const [measureUnit, setMeasureUnit] = useState<LengthUnit>("m");
+  const [activeAnnotation, setActiveAnnotation] = useState<Annotation>();
+  const [showRegionLabels, setShowRegionLabels] = useState(true);
+  // bumped on every edit so open panels re-read the map
+  const [, setMapVersion] = useState(0);
+
+  useLayoutEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+
+    canvas.onFloorsChange = () => {
+      setFloors(canvas.floors.map((floor) => floor.settings));
+      setActiveFloorId(canvas.activeFloor.id);
+    };
+    canvas.onFloorsChange();
+
+    canvas.onConnectorsChange = () =>
+      setConnectors({
+        connectors: canvas.connectors,
+        activeConnectorId: canvas.activeConnectorId,
+        kind: canvas.connectorKind,
+      });
+
+    canvas.onCollabChange = () =>
+      setCollab({
+        status: canvas.collab?.status ?? "disconnected",
+        peers: [...(canvas.collab?.peers.values() ?? [])],
+      });
+
+    canvas.onBookmarksChange = () => setBookmarks(canvas.bookmarks);
+
+    canvas.onUnderlayChange = () => setUnderlay(canvas.activeFloor.underlay);
+
+    canvas.onAnnotationsChange = () =>
+      setActiveAnnotation(
+        canvas.annotations.find(({ id }) => id === canvas.activeAnnotationId)
+      );
+
+    canvas.onMapScaleChange = () => {
+      setMapScale(canvas.mapScale);
+      setMeasureUnit(canvas.measureUnit);
+    };
+
+    canvas.onMeasurementChange = () =>
+      setMeasureDistances(
+        canvas.measurement &&
+          getMeasureDistances(canvas.measurement, canvas.cellSize)
+      );
+
+    canvas.onCalibrationChange = () =>
+      setCalibrationDistance(canvas.getCalibrationDistance());
+
+    canvas.onLayersChange = () => {
+      setLayers(canvas.layers.map((layer) => layer.settings));
+      setActiveLayerId(canvas.activeLayer.id);
+    };
+    canvas.onLayersChange();
+
+    canvas.onProductsChange = () => setProducts([...canvas.products.values()]);
+
+    canvas.onRouteChange = (cells) =>
+      setRoute({
+        // a route of n cells is n - 1 steps long
+        length: cells && cells.length - 1,
+        hasTarget: !!canvas.routeEnd,
+      });
+
+    canvas.onPickRouteChange = setPickRoute;
+
+    canvas.onMapChange = () => setMapVersion((version) => version + 1);
+
+    canvas.onPaletteChange = () => {
+      setPalette(canvas.palette);
+      // a recolor renames the brush and the blocked route fills too
+      setFillStyle(canvas.fillStyle);
+      setRouteRules(canvas.routeRules);
+    };
+    canvas.onPaletteChange();
+
+    canvas.onRegionSelect = (regionId) =>
+      setSelectedRegion(
+        regionId === undefined
+          ? undefined
+          : {
+              id: regionId,
+              meta: canvas.getRegionMeta(regionId) ?? emptyRegionMeta(),
+            }
+      );
+  }, []);
+
+  const handleRegionChange = (meta: RegionMeta) => {
+    if (!selectedRegion) return;
+
+    canvasRef.current?.updateRegionMeta(selectedRegion.id, meta);
+    setSelectedRegion({ id: selectedRegion.id, meta });
+  };
+
+  const handleSave = () => {
+    const mapFile = canvasRef.current?.toMapFile();
+    if (!mapFile) return;
+
+    downloadFile(JSON.stringify(mapFile), "store-map.json", "application/json");
+  };
+
+  const handleExportSvg = () => {
+    const svg = canvasRef.current?.toSvg();
+    if (!svg) return;
+
+    downloadFile(svg, "store-map.svg", "image/svg+xml");
+  };
+
+  const handleExportGeoJson = (transform: GeoJsonTransform) => {
+    const geoJson = canvasRef.current?.toGeoJson(transform);
+    if (!geoJson) return;
+
+    downloadFile(
+      JSON.stringify(geoJson),
+      "store-map.geojson",
+      "application/geo+json"
+    );
+  };
+
+  const handleImportGeoJson = async (file: File, transform: GeoJsonTransform) =>
+    canvasRef.current?.importGeoJson(
+      JSON.parse(await file.text()),
+      transform
+    ) ?? 0;
+
+  const handleOpen = async (file: File) => {
+    const mapFile = parseMapFile(JSON.parse(await file.text()));
+    canvasRef.current?.loadMapFile(mapFile);
+  };
+
+  const handleImportUnderlay = async (file: File) => {
+    const src = await readImageFile(file);
+    canvasRef.current?.setUnderlay(src);
+  };
+
+  const handleImportCsv = async (file: File) => {
+    const imported = parseProductCsv(await file.text());
+    canvasRef.current?.importProducts(imported);
+  };
+
+  const planPickList = (skus: string[], selections: PickTarget[]) => {
+    const canvas = canvasRef.current;
+    if (!canvas) return [];
+
+    const { targets, missing } = canvas.getProductPickTargets(skus);
+    canvas.setPickTargets([...targets, ...selections]);
+    return missing;
+  };
+
+  const handlePlanPickList = (skus: string[]) => {
+    setPickSkus(skus);
+    return planPickList(skus, pickSelections);
+  };
+
+  const handleAddPickSelection = () => {
+    const canvas = canvasRef.current;
+    const location = canvas?.getSelectionLocation();
+    if (!canvas || !location) return false;
+
+    const selections = [
+      ...pickSelections,
+      {
+        label: `Selection ${pickSelections.length + 1}`,
+        cells: canvas.getLocationCells(location),
+      },
+    ];
+    setPickSelections(selections);
+    planPickList(pickSkus, selections);
+    return true;
+  };
+
+  const handleClearPickList = () => {
+    setPickSkus([]);
+    setPickSelections([]);
+    canvasRef.current?.setPickTargets([]);
+  };
+
+  const getStatsPanelProps = (canvas: Canvas) => {
+    const { minPaintedCoord: min, maxPaintedCoord: max, cellSize } = canvas;
+
+    const extents =
+      min && max
+        ? {
+            width: (max.x - min.x) / cellSize,
+            height: (max.y - min.y) / cellSize,
+          }
+        : undefined;
+
+    return { ...canvas.getMapStats(), extents };
+  };
+
+  const handlePlaceProduct = (sku: string) => {
+    const canvas = canvasRef.current;
+    const location = canvas?.getSelectionLocation();
+    if (!canvas || !location) return false;
+
+    canvas.setProductLocation(sku, location);
+    canvas.showProduct(sku);
+    return true;
+  };
+
   return (
     <>
       <Stack>
-        <ColorPicker
-          onSelectColor={(color: string) =>
-            canvasRef.current?.setFillStyle(color)
+        <MapFileActions
+          onSave={handleSave}
+          onOpen={handleOpen}
+          onExportSvg={handleExportSvg}
+        />
+        <GeoJsonPanel
+          mapScale={mapScale}
+          onExport={handleExportGeoJson}
+          onImport={handleImportGeoJson}
+        />
+        <CollabPanel
+          status={collab.status}
+          peers={collab.peers}
+          onConnect={(url, name) => canvasRef.current?.connectCollab(url, name)}
+          onDisconnect={() => canvasRef.current?.disconnectCollab()}
+        />
+        <PalettePanel
+          palette={palette}
+          fillStyle={fillStyle}
+          showLegend={showLegend}
+          onSelectColor={(color) => {
+            setFillStyle(color);
+            canvasRef.current?.setFillStyle(color);
+          }}
+          onAdd={() =>
+            canvasRef.current?.addPaletteEntry(tinycolor.random().toHexString())
+          }
+          onChange={(id, update) =>
+            canvasRef.current?.updatePaletteEntry(id, update)
           }
+          onRemove={(id) => canvasRef.current?.removePaletteEntry(id)}
+          onShowLegendChange={(nextShowLegend) => {
+            setShowLegend(nextShowLegend);
+            canvasRef.current?.setShowLegend(nextShowLegend);
+          }}
+        />
+        <ToolPalette
+          tool={tool}
+          onSelectTool={(nextTool) => {
+            setTool(nextTool);
+            canvasRef.current?.setTool(nextTool);
+          }}
         />
+        <Button
+          size="xs"
+          variant={showStats ? "light" : "default"}
+          onClick={() => setShowStats(!showStats)}
+        >
+          Region stats
+        </Button>
         <TestBtn />
       </Stack>
       <div
@@ -770,29 +4805,314 @@ export const CanvasContainer = () => {
       >
         <canvas ref={canvasElementRef} width={800} height={600} />
       </div>
+      <Stack>
+        <ViewPanel
+          bookmarks={bookmarks}
+          canZoomToRegion={!!selectedRegion}
+          showMinimap={showMinimap}
+          showRegionLabels={showRegionLabels}
+          onZoomToFit={() => canvasRef.current?.zoomToFit()}
+          onZoomToRegion={() =>
+            selectedRegion && canvasRef.current?.zoomToRegion(selectedRegion.id)
+          }
+          onShowMinimapChange={(nextShowMinimap) => {
+            setShowMinimap(nextShowMinimap);
+            canvasRef.current?.setShowMinimap(nextShowMinimap);
+          }}
+          onShowRegionLabelsChange={(nextShowRegionLabels) => {
+            setShowRegionLabels(nextShowRegionLabels);
+            canvasRef.current?.setShowRegionLabels(nextShowRegionLabels);
+          }}
+          onAddBookmark={(name) => canvasRef.current?.addBookmark(name)}
+          onGoToBookmark={(bookmarkId) =>
+            canvasRef.current?.goToBookmark(bookmarkId)
+          }
+          onRemoveBookmark={(bookmarkId) =>
+            canvasRef.current?.removeBookmark(bookmarkId)
+          }
+        />
+        <FloorPanel
+          floors={floors}
+          activeFloorId={activeFloorId}
+          showFloorBelow={showFloorBelow}
+          onSelectFloor={(floorId) =>
+            canvasRef.current?.setActiveFloor(floorId)
+          }
+          onAddFloor={(position) => canvasRef.current?.addFloor(position)}
+          onRename={(floorId, name) =>
+            canvasRef.current?.updateFloor(floorId, { name })
+          }
+          onRemove={(floorId) => canvasRef.current?.removeFloor(floorId)}
+          onShowFloorBelowChange={(nextShowFloorBelow) => {
+            setShowFloorBelow(nextShowFloorBelow);
+            canvasRef.current?.setShowFloorBelow(nextShowFloorBelow);
+          }}
+        />
+        <UnderlayPanel
+          underlay={underlay}
+          mapScale={mapScale}
+          onImport={handleImportUnderlay}
+          onChange={(update) => canvasRef.current?.updateUnderlay(update)}
+          onRemove={() => canvasRef.current?.setUnderlay(undefined)}
+        />
+        <LayerPanel
+          layers={layers}
+          activeLayerId={activeLayerId}
+          onSelectLayer={(layerId) =>
+            canvasRef.current?.setActiveLayer(layerId)
+          }
+          onChange={(layerId, settings) =>
+            canvasRef.current?.updateLayer(layerId, settings)
+          }
+        />
+        <ProductPanel
+          products={products}
+          onImportCsv={handleImportCsv}
+          onShowProduct={(sku) => canvasRef.current?.showProduct(sku)}
+          onPlaceProduct={handlePlaceProduct}
+          onClearPlacement={(sku) =>
+            canvasRef.current?.setProductLocation(sku, undefined)
+          }
+        />
+      </Stack>
+      {tool === Tool.Connector && (
+        <ConnectorPanel
+          connectors={connectors.connectors}
+          floors={floors}
+          activeConnectorId={connectors.activeConnectorId}
+          kind={connectors.kind}
+          onKindChange={(kind) => canvasRef.current?.setConnectorKind(kind)}
+          onSelect={(connectorId) =>
+            canvasRef.current?.setActiveConnector(connectorId)
+          }
+          onChange={(connectorId, update) =>
+            canvasRef.current?.updateConnector(connectorId, update)
+          }
+          onShowEnd={(connectorId, floorId) =>
+            canvasRef.current?.showConnectorEnd(connectorId, floorId)
+          }
+          onRemove={(connectorId) =>
+            canvasRef.current?.removeConnector(connectorId)
+          }
+        />
+      )}
+      {tool === Tool.Annotate && (
+        <AnnotationPanel
+          annotation={activeAnnotation}
+          onChange={(update) =>
+            activeAnnotation &&
+            canvasRef.current?.updateAnnotation(activeAnnotation.id, update)
+          }
+          onDone={() => canvasRef.current?.setActiveAnnotation(undefined)}
+          onRemove={() =>
+            activeAnnotation &&
+            canvasRef.current?.removeAnnotation(activeAnnotation.id)
+          }
+        />
+      )}
+      {tool === Tool.Measure && (
+        <MeasurePanel
+          distances={measureDistances}
+          mapScale={mapScale}
+          snap={measureSnap}
+          unit={measureUnit}
+          onSnapChange={(snap) => {
+            setMeasureSnap(snap);
+            canvasRef.current?.setMeasureSnap(snap);
+          }}
+          onUnitChange={(unit) => {
+            setMeasureUnit(unit);
+            canvasRef.current?.setMeasureUnit(unit);
+          }}
+          onClear={() => canvasRef.current?.clearMeasurement()}
+        />
+      )}
+      {tool === Tool.Calibrate && (
+        <CalibrationPanel
+          distance={calibrationDistance}
+          mapScale={mapScale}
+          onApply={(realDistance, unit) =>
+            canvasRef.current?.applyCalibration(realDistance, unit)
+          }
+        />
+      )}
+      {tool === Tool.Route && (
+        <RoutePanel
+          rules={routeRules}
+          fills={palette.map(({ color }) => color)}
+          routeLength={route.length}
+          hasTarget={route.hasTarget}
+          onChange={(rules) => {
+            setRouteRules(rules);
+            canvasRef.current?.setRouteRules(rules);
+          }}
+          onClear={() => canvasRef.current?.clearRoute()}
+        />
+      )}
+      {tool === Tool.Route && (
+        <PickListPanel
+          pickRoute={pickRoute}
+          selectionCount={pickSelections.length}
+          onPlan={handlePlanPickList}
+          onAddSelection={handleAddPickSelection}
+          onClear={handleClearPickList}
+        />
+      )}
+      {showStats && canvasRef.current && (
+        <RegionStatsPanel
+          {...getStatsPanelProps(canvasRef.current)}
+          selectedRegionId={selectedRegion?.id}
+          onSelectRegion={(regionId) =>
+            canvasRef.current?.selectRegion(regionId)
+          }
+        />
+      )}
+      {(selectedRegion || tool === Tool.Inspect) && (
+        <RegionInspector
+          region={selectedRegion}
+          onChange={handleRegionChange}
+          onClose={() => canvasRef.current?.selectRegion(undefined)}
+        />
+      )}
     </>
   );
 };
 
-type ColorPickerProps = {
-  onSelectColor: (color: string) => void;
+type StoreMapViewerProps = {
+  map: StoreMapFile;
+  // defaults to the first floor
+  floorId?: string;
+  // the layer regions are clicked & highlighted on; defaults to the topmost
+  // visible layer with anything painted on it, like departments
+  layerId?: string;
+  // region ids on that layer, like the ones onRegionClick gets
+  highlightRegions?: number[];
+  showRegionLabels?: boolean;
+  showMinimap?: boolean;
+  onRegionClick?: (regionId: number, meta?: RegionMeta) => void;
+  onCellHover?: (cellCoord?: GridCellCoord) => void;
+};
+
+/**
+ * A saved map, read-only, for embedding in other apps. It fills its parent
+ * and can be panned & zoomed; the editing tools aren't there at all.
+ */
+export const StoreMapViewer = ({
+  map,
+  floorId,
+  layerId,
+  highlightRegions,
+  showRegionLabels = true,
+  showMinimap = false,
+  onRegionClick,
+  onCellHover,
+}: StoreMapViewerProps) => {
+  const containerElementRef = useRef<HTMLDivElement>(null);
+  const canvasElementRef = useRef<HTMLCanvasElement>(null);
+  const canvasRef = useRef<Canvas>();
+
+  useLayoutEffect(() => {
+    const container = containerElementRef.current;
+    if (!container) return;
+
+    const canvas = new Canvas(canvasElementRef, { readOnly: true });
+    canvasRef.current = canvas;
+    canvas.resize(container.clientWidth, container.clientHeight);
+
+    const observer = new ResizeObserver(() =>
+      canvas.resize(container.clientWidth, container.clientHeight)
+    );
+    observer.observe(container);
+
+    return () => {
+      observer.disconnect();
+      canvas.destroy();
+      canvasRef.current = undefined;
+    };
+  }, []);
+
+  useLayoutEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+
+    canvas.loadMapFile(map);
+    canvas.zoomToFit();
+  }, [map]);
+
+  useLayoutEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+
+    canvas.setActiveFloor(floorId ?? canvas.floors[0].id);
+
+    // layers are drawn in order, so the last one is on top
+    const topLayer = [...canvas.layers]
+      .reverse()
+      .find((layer) => layer.visible && layer.cellData.size);
+    canvas.setActiveLayer(layerId ?? topLayer?.id ?? canvas.activeLayer.id);
+  }, [map, floorId, layerId]);
+
+  useLayoutEffect(() => {
+    canvasRef.current?.setHighlightedRegions(highlightRegions ?? []);
+  }, [map, floorId, layerId, highlightRegions]);
+
+  useLayoutEffect(() => {
+    canvasRef.current?.setShowRegionLabels(showRegionLabels);
+    canvasRef.current?.setShowMinimap(showMinimap);
+  }, [showRegionLabels, showMinimap]);
+
+  useLayoutEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+
+    canvas.onRegionClick =
+      onRegionClick &&
+      ((regionId) => onRegionClick(regionId, canvas.getRegionMeta(regionId)));
+    canvas.onCellHover = onCellHover;
+  }, [onRegionClick, onCellHover]);
+
+  return (
+    <div
+      ref={containerElementRef}
+      style={{ width: "100%", height: "100%", overflow: "hidden" }}
+    >
+      <canvas ref={canvasElementRef} style={{ display: "block" }} />
+    </div>
+  );
 };
 
-const ColorPicker = ({ onSelectColor }: ColorPickerProps) => {
+/**
+ * Runs benchmarkRegionStrokes on a canvas of its own, away from any map
+ * being edited. Each run starts from an empty canvas.
+ */
+export const RegionBenchmark = () => {
+  const canvasElementRef = useRef<HTMLCanvasElement>(null);
+  const [results, setResults] = useState<Record<string, number>>();
+
+  const handleRun = () => {
+    const canvas = new Canvas(canvasElementRef, { headless: true });
+    setResults(benchmarkRegionStrokes(canvas));
+    canvas.destroy();
+  };
+
   return (
-    <Group gap={0}>
-      {Object.values(colors).map((color) => (
-        <div
-          key={color}
-          onClick={() => onSelectColor(color)}
-          style={{
-            height: 20,
-            width: 20,
-            backgroundColor: color,
-            cursor: "pointer",
-          }}
-        />
-      ))}
-    </Group>
+    <Stack gap="xs" w={320}>
+      <canvas
+        ref={canvasElementRef}
+        width={800}
+        height={600}
+        style={{ display: "none" }}
+      />
+      <Button size="xs" variant="default" onClick={handleRun}>
+        Run region benchmark
+      </Button>
+      {results &&
+        Object.entries(results).map(([label, ms]) => (
+          <Group key={label} justify="space-between">
+            <Text size="xs">{label}</Text>
+            <Text size="xs">{ms.toFixed(1)} ms</Text>
+          </Group>
+        ))}
+    </Stack>
   );
 };
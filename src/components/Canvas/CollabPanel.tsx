@@ -0,0 +1,72 @@
+import { useState } from "react";
+import { Button, Group, Stack, Text, TextInput } from "@mantine/core";
+import { CollabPeer, CollabStatus } from "./collab";
+
+const statusLabels: Record<CollabStatus, string> = {
+  connecting: "Connecting…",
+  connected: "Connected",
+  disconnected: "Not connected",
+};
+
+type CollabPanelProps = {
+  status: CollabStatus;
+  peers: CollabPeer[];
+  onConnect: (url: string, name: string) => void;
+  onDisconnect: () => void;
+};
+
+// `npm run relay` serves the default address
+export const CollabPanel = ({
+  status,
+  peers,
+  onConnect,
+  onDisconnect,
+}: CollabPanelProps) => {
+  const [url, setUrl] = useState("ws://localhost:8787");
+  const [name, setName] = useState("");
+
+  return (
+    <Stack gap="xs" w={240}>
+      <Text fw={500} size="sm">
+        Collaborate
+      </Text>
+      <TextInput
+        size="xs"
+        label="Relay"
+        value={url}
+        disabled={status !== "disconnected"}
+        onChange={(e) => setUrl(e.currentTarget.value)}
+      />
+      <TextInput
+        size="xs"
+        label="Your name"
+        value={name}
+        disabled={status !== "disconnected"}
+        onChange={(e) => setName(e.currentTarget.value)}
+      />
+      <Group justify="space-between">
+        <Text size="xs" c={status === "connected" ? "teal" : "dimmed"}>
+          {statusLabels[status]}
+        </Text>
+        {status === "disconnected" ? (
+          <Button
+            size="xs"
+            variant="default"
+            onClick={() => onConnect(url, name.trim() || "Anonymous")}
+          >
+            Join
+          </Button>
+        ) : (
+          <Button size="xs" variant="subtle" onClick={onDisconnect}>
+            Leave
+          </Button>
+        )}
+      </Group>
+      {peers.map((peer) => (
+        <Text key={peer.clientId} size="xs" c={peer.color}>
+          {peer.name}
+        </Text>
+      ))}
+    </Stack>
+  );
+};
@@ -0,0 +1,118 @@
+import {
+  Button,
+  CloseButton,
+  Group,
+  Paper,
+  SegmentedControl,
+  Stack,
+  Text,
+} from "@mantine/core";
+import {
+  Connector,
+  ConnectorKind,
+  FloorSettings,
+  connectorKinds,
+  isConnectorKind,
+} from "./floors";
+
+const kindOptions = connectorKinds.map((kind) => ({
+  value: kind,
+  label: kind[0].toUpperCase() + kind.slice(1),
+}));
+
+type ConnectorPanelProps = {
+  connectors: Connector[];
+  floors: FloorSettings[];
+  activeConnectorId?: string;
+  // the kind new connectors get
+  kind: ConnectorKind;
+  onKindChange: (kind: ConnectorKind) => void;
+  onSelect: (connectorId: string | undefined) => void;
+  onChange: (connectorId: string, update: { kind: ConnectorKind }) => void;
+  onShowEnd: (connectorId: string, floorId: string) => void;
+  onRemove: (connectorId: string) => void;
+};
+
+export const ConnectorPanel = ({
+  connectors,
+  floors,
+  activeConnectorId,
+  kind,
+  onKindChange,
+  onSelect,
+  onChange,
+  onShowEnd,
+  onRemove,
+}: ConnectorPanelProps) => {
+  const floorName = (floorId: string) =>
+    floors.find(({ id }) => id === floorId)?.name ?? floorId;
+
+  return (
+    <Paper shadow="sm" p="sm" w={280}>
+      <Stack gap="xs">
+        <Group justify="space-between">
+          <Text fw={500} size="sm">
+            Connectors
+          </Text>
+          {activeConnectorId && (
+            <Button
+              size="xs"
+              variant="subtle"
+              onClick={() => onSelect(undefined)}
+            >
+              Done
+            </Button>
+          )}
+        </Group>
+        <Text size="xs" c="dimmed">
+          Click a cell to place a connector, then switch floors and click the
+          cell it leads to.
+        </Text>
+        <SegmentedControl
+          size="xs"
+          data={kindOptions}
+          value={kind}
+          onChange={(value) => isConnectorKind(value) && onKindChange(value)}
+        />
+        {connectors.map((connector) => (
+          <Stack
+            key={connector.id}
+            gap={4}
+            p={4}
+            bg={connector.id === activeConnectorId ? "gray.1" : undefined}
+          >
+            <Group justify="space-between" wrap="nowrap">
+              <SegmentedControl
+                size="xs"
+                data={kindOptions}
+                value={connector.kind}
+                onChange={(value) =>
+                  isConnectorKind(value) &&
+                  onChange(connector.id, { kind: value })
+                }
+              />
+              <CloseButton size="sm" onClick={() => onRemove(connector.id)} />
+            </Group>
+            <Group gap={4}>
+              {connector.ends.map((end) => (
+                <Button
+                  key={end.floorId}
+                  size="compact-xs"
+                  variant="default"
+                  onClick={() => onShowEnd(connector.id, end.floorId)}
+                >
+                  {floorName(end.floorId)}
+                </Button>
+              ))}
+              {connector.ends.length < 2 && (
+                <Text size="xs" c="orange">
+                  Not linked yet
+                </Text>
+              )}
+            </Group>
+          </Stack>
+        ))}
+      </Stack>
+    </Paper>
+  );
+};
@@ -0,0 +1,81 @@
+import {
+  Button,
+  Checkbox,
+  CloseButton,
+  Group,
+  Stack,
+  Text,
+  TextInput,
+} from "@mantine/core";
+import { FloorSettings } from "./floors";
+
+type FloorPanelProps = {
+  floors: FloorSettings[];
+  activeFloorId: string;
+  showFloorBelow: boolean;
+  onSelectFloor: (floorId: string) => void;
+  onAddFloor: (position: "above" | "below") => void;
+  onRename: (floorId: string, name: string) => void;
+  onRemove: (floorId: string) => void;
+  onShowFloorBelowChange: (showFloorBelow: boolean) => void;
+};
+
+// listed top to bottom, like the building
+export const FloorPanel = ({
+  floors,
+  activeFloorId,
+  showFloorBelow,
+  onSelectFloor,
+  onAddFloor,
+  onRename,
+  onRemove,
+  onShowFloorBelowChange,
+}: FloorPanelProps) => {
+  const activeFloor = floors.find(({ id }) => id === activeFloorId);
+
+  return (
+    <Stack gap="xs" w={240}>
+      <Text fw={500} size="sm">
+        Floors
+      </Text>
+      {[...floors].reverse().map((floor) => (
+        <Group key={floor.id} gap="xs" wrap="nowrap">
+          <Button
+            size="xs"
+            style={{ flex: 1 }}
+            justify="start"
+            variant={floor.id === activeFloorId ? "light" : "subtle"}
+            onClick={() => onSelectFloor(floor.id)}
+          >
+            {floor.name}
+          </Button>
+          {floors.length > 1 && (
+            <CloseButton size="sm" onClick={() => onRemove(floor.id)} />
+          )}
+        </Group>
+      ))}
+      {activeFloor && (
+        <TextInput
+          size="xs"
+          label="Name"
+          value={activeFloor.name}
+          onChange={(e) => onRename(activeFloor.id, e.currentTarget.value)}
+        />
+      )}
+      <Group gap="xs">
+        <Button size="xs" variant="default" onClick={() => onAddFloor("above")}>
+          Add above
+        </Button>
+        <Button size="xs" variant="default" onClick={() => onAddFloor("below")}>
+          Add below
+        </Button>
+      </Group>
+      <Checkbox
+        size="xs"
+        label="Show floor below"
+        checked={showFloorBelow}
+        onChange={(e) => onShowFloorBelowChange(e.currentTarget.checked)}
+      />
+    </Stack>
+  );
+};
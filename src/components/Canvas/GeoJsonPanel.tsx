@@ -0,0 +1,114 @@
+import { useState } from "react";
+import {
+  Button,
+  FileButton,
+  Group,
+  NumberInput,
+  Stack,
+  Text,
+} from "@mantine/core";
+import { GeoJsonTransform } from "./geoJson";
+import { MapScale } from "./underlay";
+
+type GeoJsonPanelProps = {
+  mapScale?: MapScale;
+  onExport: (transform: GeoJsonTransform) => void;
+  onImport: (file: File, transform: GeoJsonTransform) => Promise<number>;
+};
+
+export const GeoJsonPanel = ({
+  mapScale,
+  onExport,
+  onImport,
+}: GeoJsonPanelProps) => {
+  const [originX, setOriginX] = useState<string | number>(0);
+  const [originY, setOriginY] = useState<string | number>(0);
+  // follows the map's calibration until edited
+  const [editedUnitsPerCell, setUnitsPerCell] = useState<string | number>();
+  const unitsPerCell = editedUnitsPerCell ?? mapScale?.cellLength ?? 1;
+  const [message, setMessage] = useState<{ text: string; error: boolean }>();
+
+  const transform: GeoJsonTransform | undefined =
+    typeof originX === "number" &&
+    typeof originY === "number" &&
+    typeof unitsPerCell === "number" &&
+    unitsPerCell > 0
+      ? { origin: { x: originX, y: originY }, unitsPerCell }
+      : undefined;
+
+  const handleImport = async (file: File | null) => {
+    if (!file || !transform) return;
+
+    try {
+      const count = await onImport(file, transform);
+      setMessage({ text: `Imported ${count} cells`, error: false });
+    } catch (e) {
+      setMessage({
+        text: e instanceof Error ? e.message : "Couldn't import GeoJSON",
+        error: true,
+      });
+    }
+  };
+
+  return (
+    <Stack gap="xs" w={240}>
+      <Text fw={500} size="sm">
+        GeoJSON
+      </Text>
+      <Group gap="xs" wrap="nowrap">
+        <NumberInput
+          size="xs"
+          label="Origin X"
+          decimalScale={6}
+          value={originX}
+          onChange={setOriginX}
+        />
+        <NumberInput
+          size="xs"
+          label="Origin Y"
+          decimalScale={6}
+          value={originY}
+          onChange={setOriginY}
+        />
+      </Group>
+      <NumberInput
+        size="xs"
+        label="Units per cell"
+        min={0}
+        decimalScale={9}
+        value={unitsPerCell}
+        onChange={setUnitsPerCell}
+      />
+      <Group gap="xs">
+        <Button
+          size="xs"
+          variant="default"
+          disabled={!transform}
+          onClick={() => transform && onExport(transform)}
+        >
+          Export
+        </Button>
+        <FileButton
+          onChange={handleImport}
+          accept="application/geo+json,application/json,.geojson,.json"
+        >
+          {(props) => (
+            <Button
+              size="xs"
+              variant="default"
+              disabled={!transform}
+              {...props}
+            >
+              Import
+            </Button>
+          )}
+        </FileButton>
+      </Group>
+      {message && (
+        <Text size="xs" c={message.error ? "red" : "dimmed"}>
+          {message.text}
+        </Text>
+      )}
+    </Stack>
+  );
+};
@@ -0,0 +1,68 @@
+import { Button, Checkbox, Group, Slider, Stack, Text } from "@mantine/core";
+import { LayerSettings } from "./layers";
+
+type LayerPanelProps = {
+  layers: LayerSettings[];
+  activeLayerId: string;
+  onSelectLayer: (layerId: string) => void;
+  onChange: (
+    layerId: string,
+    settings: Partial<Omit<LayerSettings, "id">>
+  ) => void;
+};
+
+// listed top to bottom, the reverse of the render order
+export const LayerPanel = ({
+  layers,
+  activeLayerId,
+  onSelectLayer,
+  onChange,
+}: LayerPanelProps) => {
+  return (
+    <Stack gap="xs" w={240}>
+      <Text fw={500} size="sm">
+        Layers
+      </Text>
+      {[...layers].reverse().map((layer) => (
+        <Stack key={layer.id} gap={4}>
+          <Group gap="xs" wrap="nowrap">
+            <Button
+              size="xs"
+              style={{ flex: 1 }}
+              justify="start"
+              variant={layer.id === activeLayerId ? "light" : "subtle"}
+              onClick={() => onSelectLayer(layer.id)}
+            >
+              {layer.name}
+            </Button>
+            <Checkbox
+              size="xs"
+              label="Show"
+              checked={layer.visible}
+              onChange={(e) =>
+                onChange(layer.id, { visible: e.currentTarget.checked })
+              }
+            />
+            <Checkbox
+              size="xs"
+              label="Lock"
+              checked={layer.locked}
+              onChange={(e) =>
+                onChange(layer.id, { locked: e.currentTarget.checked })
+              }
+            />
+          </Group>
+          <Slider
+            size="xs"
+            min={0}
+            max={1}
+            step={0.05}
+            label={(value) => `${Math.round(value * 100)}%`}
+            value={layer.opacity}
+            onChange={(opacity) => onChange(layer.id, { opacity })}
+          />
+        </Stack>
+      ))}
+    </Stack>
+  );
+};
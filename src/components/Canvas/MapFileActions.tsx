@@ -0,0 +1,52 @@
+import { useState } from "react";
+import { Button, FileButton, Group, Stack, Text } from "@mantine/core";
+
+type MapFileActionsProps = {
+  onSave: () => void;
+  onOpen: (file: File) => Promise<void>;
+  onExportSvg: () => void;
+};
+
+export const MapFileActions = ({
+  onSave,
+  onOpen,
+  onExportSvg,
+}: MapFileActionsProps) => {
+  const [error, setError] = useState<string>();
+
+  const handleOpen = async (file: File | null) => {
+    if (!file) return;
+
+    try {
+      await onOpen(file);
+      setError(undefined);
+    } catch (e) {
+      setError(e instanceof Error ? e.message : "Couldn't open map");
+    }
+  };
+
+  return (
+    <Stack gap={4}>
+      <Group gap="xs">
+        <Button size="xs" variant="default" onClick={onSave}>
+          Save
+        </Button>
+        <FileButton onChange={handleOpen} accept="application/json,.json">
+          {(props) => (
+            <Button size="xs" variant="default" {...props}>
+              Open
+            </Button>
+          )}
+        </FileButton>
+        <Button size="xs" variant="default" onClick={onExportSvg}>
+          Export SVG
+        </Button>
+      </Group>
+      {error && (
+        <Text size="xs" c="red">
+          {error}
+        </Text>
+      )}
+    </Stack>
+  );
+};
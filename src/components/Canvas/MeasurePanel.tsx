@@ -0,0 +1,93 @@
+import {
+  Button,
+  Group,
+  Paper,
+  SegmentedControl,
+  Stack,
+  Text,
+} from "@mantine/core";
+import { MeasureDistances, MeasureSnap, formatLength } from "./measure";
+import { LengthUnit, MapScale, lengthUnits } from "./underlay";
+
+type MeasurePanelProps = {
+  distances?: MeasureDistances;
+  mapScale?: MapScale;
+  snap: MeasureSnap;
+  unit: LengthUnit;
+  onSnapChange: (snap: MeasureSnap) => void;
+  onUnitChange: (unit: LengthUnit) => void;
+  onClear: () => void;
+};
+
+export const MeasurePanel = ({
+  distances,
+  mapScale,
+  snap,
+  unit,
+  onSnapChange,
+  onUnitChange,
+  onClear,
+}: MeasurePanelProps) => {
+  const rows = distances && [
+    ["Straight line", formatLength(distances.straight, mapScale, unit)],
+    ["Manhattan", formatLength(distances.manhattan, mapScale, unit)],
+    [
+      "Walking",
+      distances.walking === undefined
+        ? "No path"
+        : formatLength(distances.walking, mapScale, unit),
+    ],
+  ];
+
+  return (
+    <Paper shadow="sm" p="sm" w={240}>
+      <Stack gap="xs">
+        <Group justify="space-between">
+          <Text fw={500} size="sm">
+            Measure
+          </Text>
+          {distances && (
+            <Button size="xs" variant="subtle" onClick={onClear}>
+              Clear
+            </Button>
+          )}
+        </Group>
+        <Group gap="xs">
+          <SegmentedControl
+            size="xs"
+            value={snap}
+            onChange={(value) => onSnapChange(value as MeasureSnap)}
+            data={[
+              { value: "center", label: "Cell centers" },
+              { value: "edge", label: "Cell edges" },
+            ]}
+          />
+          <SegmentedControl
+            size="xs"
+            value={unit}
+            disabled={!mapScale}
+            onChange={(value) => onUnitChange(value as LengthUnit)}
+            data={[...lengthUnits]}
+          />
+        </Group>
+        {!mapScale && (
+          <Text size="xs" c="dimmed">
+            Calibrate the map to measure in feet or meters.
+          </Text>
+        )}
+        {rows ? (
+          rows.map(([label, value]) => (
+            <Group key={label} justify="space-between">
+              <Text size="xs">{label}</Text>
+              <Text size="xs">{value}</Text>
+            </Group>
+          ))
+        ) : (
+          <Text size="xs" c="dimmed">
+            Drag between two points to measure.
+          </Text>
+        )}
+      </Stack>
+    </Paper>
+  );
+};
@@ -0,0 +1,126 @@
+import { useState } from "react";
+import {
+  Button,
+  CloseButton,
+  ColorInput,
+  Group,
+  Select,
+  Stack,
+  Switch,
+  Text,
+  TextInput,
+} from "@mantine/core";
+import { PaletteEntry } from "./palette";
+import { isRegionCategory, regionCategories } from "./regions";
+
+type PalettePanelProps = {
+  palette: PaletteEntry[];
+  fillStyle: string;
+  showLegend: boolean;
+  onSelectColor: (color: string) => void;
+  onAdd: () => void;
+  // throws when the new color is already in use
+  onChange: (id: string, update: Partial<Omit<PaletteEntry, "id">>) => void;
+  onRemove: (id: string) => void;
+  onShowLegendChange: (showLegend: boolean) => void;
+};
+
+export const PalettePanel = ({
+  palette,
+  fillStyle,
+  showLegend,
+  onSelectColor,
+  onAdd,
+  onChange,
+  onRemove,
+  onShowLegendChange,
+}: PalettePanelProps) => {
+  const [editing, setEditing] = useState(false);
+  const [error, setError] = useState<string>();
+
+  const handleRecolor = (id: string, color: string) => {
+    try {
+      onChange(id, { color });
+      setError(undefined);
+    } catch (e) {
+      setError(e instanceof Error ? e.message : "Couldn't change the color");
+    }
+  };
+
+  return (
+    <Stack gap={4}>
+      <Group gap={4}>
+        {palette.map((entry) => (
+          <div
+            key={entry.id}
+            title={entry.name}
+            onClick={() => onSelectColor(entry.color)}
+            style={{
+              height: 20,
+              width: 20,
+              backgroundColor: entry.color,
+              cursor: "pointer",
+              outline:
+                entry.color === fillStyle ? "2px solid black" : undefined,
+            }}
+          />
+        ))}
+        <Button size="compact-xs" variant="subtle" onClick={onAdd}>
+          +
+        </Button>
+        <Button
+          size="compact-xs"
+          variant={editing ? "light" : "subtle"}
+          onClick={() => setEditing(!editing)}
+        >
+          Edit
+        </Button>
+      </Group>
+      {editing &&
+        palette.map((entry) => (
+          <Group key={entry.id} gap={4} wrap="nowrap">
+            <ColorInput
+              size="xs"
+              w={100}
+              withEyeDropper={false}
+              defaultValue={entry.color}
+              onChangeEnd={(color) => handleRecolor(entry.id, color)}
+            />
+            <TextInput
+              size="xs"
+              w={100}
+              value={entry.name}
+              onChange={(e) =>
+                onChange(entry.id, { name: e.currentTarget.value })
+              }
+            />
+            <Select
+              size="xs"
+              w={100}
+              placeholder="Category"
+              clearable
+              data={[...regionCategories]}
+              value={entry.category ?? null}
+              onChange={(value) =>
+                onChange(entry.id, {
+                  category: isRegionCategory(value) ? value : undefined,
+                })
+              }
+            />
+            <CloseButton size="sm" onClick={() => onRemove(entry.id)} />
+          </Group>
+        ))}
+      <Switch
+        size="xs"
+        label="Legend"
+        checked={showLegend}
+        onChange={(e) => onShowLegendChange(e.currentTarget.checked)}
+      />
+      {error && (
+        <Text size="xs" c="red">
+          {error}
+        </Text>
+      )}
+    </Stack>
+  );
+};
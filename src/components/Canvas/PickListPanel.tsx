@@ -0,0 +1,105 @@
+import { useState } from "react";
+import {
+  Button,
+  Group,
+  List,
+  Paper,
+  Stack,
+  Text,
+  Textarea,
+} from "@mantine/core";
+import { PickRoute } from "./pickList";
+
+type PickListPanelProps = {
+  pickRoute?: PickRoute;
+  selectionCount: number;
+  // returns the SKUs that aren't placed on the active floor
+  onPlan: (skus: string[]) => string[];
+  onAddSelection: () => boolean;
+  onClear: () => void;
+};
+
+export const PickListPanel = ({
+  pickRoute,
+  selectionCount,
+  onPlan,
+  onAddSelection,
+  onClear,
+}: PickListPanelProps) => {
+  const [skuText, setSkuText] = useState("");
+  const [error, setError] = useState<string>();
+
+  const handlePlan = () => {
+    const skus = skuText
+      .split(/[\s,;]+/)
+      .map((sku) => sku.trim())
+      .filter(Boolean);
+    const missing = onPlan(skus);
+
+    setError(
+      missing.length ? `Not on this floor: ${missing.join(", ")}` : undefined
+    );
+  };
+
+  const handleAddSelection = () => {
+    setError(
+      onAddSelection() ? undefined : "Select cells or a region to add a stop"
+    );
+  };
+
+  const handleClear = () => {
+    setSkuText("");
+    setError(undefined);
+    onClear();
+  };
+
+  return (
+    <Paper shadow="sm" p="sm" w={240}>
+      <Stack gap="xs">
+        <Text fw={500} size="sm">
+          Pick list
+        </Text>
+        <Textarea
+          size="xs"
+          autosize
+          minRows={3}
+          placeholder="SKUs, one per line"
+          value={skuText}
+          onChange={(e) => setSkuText(e.currentTarget.value)}
+        />
+        <Group gap="xs">
+          <Button size="xs" variant="default" onClick={handlePlan}>
+            Plan
+          </Button>
+          <Button size="xs" variant="default" onClick={handleAddSelection}>
+            Add selection{selectionCount ? ` (${selectionCount})` : ""}
+          </Button>
+          <Button size="xs" variant="subtle" onClick={handleClear}>
+            Clear
+          </Button>
+        </Group>
+        {pickRoute && (
+          <>
+            <Text size="xs">Total distance: {pickRoute.distance} cells</Text>
+            <List type="ordered" size="xs">
+              {pickRoute.stops.map(({ target }, i) => (
+                <List.Item key={i}>{target.label}</List.Item>
+              ))}
+            </List>
+            {pickRoute.unreachable.length > 0 && (
+              <Text size="xs" c="red">
+                Unreachable:{" "}
+                {pickRoute.unreachable.map(({ label }) => label).join(", ")}
+              </Text>
+            )}
+          </>
+        )}
+        {error && (
+          <Text size="xs" c="red">
+            {error}
+          </Text>
+        )}
+      </Stack>
+    </Paper>
+  );
+};
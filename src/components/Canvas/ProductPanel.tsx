@@ -0,0 +1,123 @@
+import { useState } from "react";
+import {
+  Button,
+  FileButton,
+  Group,
+  Stack,
+  Text,
+  TextInput,
+  UnstyledButton,
+} from "@mantine/core";
+import { Product, searchProducts } from "./products";
+
+type ProductPanelProps = {
+  products: Product[];
+  onImportCsv: (file: File) => Promise<void>;
+  onShowProduct: (sku: string | undefined) => void;
+  onPlaceProduct: (sku: string) => boolean;
+  onClearPlacement: (sku: string) => void;
+};
+
+export const ProductPanel = ({
+  products,
+  onImportCsv,
+  onShowProduct,
+  onPlaceProduct,
+  onClearPlacement,
+}: ProductPanelProps) => {
+  const [query, setQuery] = useState("");
+  const [activeSku, setActiveSku] = useState<string>();
+  const [error, setError] = useState<string>();
+
+  const results = searchProducts(products, query);
+  const activeProduct = products.find(({ sku }) => sku === activeSku);
+
+  const handleImport = async (file: File | null) => {
+    if (!file) return;
+
+    try {
+      await onImportCsv(file);
+      setError(undefined);
+    } catch (e) {
+      setError(e instanceof Error ? e.message : "Couldn't import products");
+    }
+  };
+
+  const handleSelect = (sku: string) => {
+    setActiveSku(sku);
+    setError(undefined);
+    onShowProduct(sku);
+  };
+
+  const handlePlace = () => {
+    if (!activeSku) return;
+
+    setError(
+      onPlaceProduct(activeSku)
+        ? undefined
+        : "Select cells or a region to place the product"
+    );
+  };
+
+  return (
+    <Stack gap="xs" w={240}>
+      <Group justify="space-between">
+        <Text fw={500} size="sm">
+          Products ({products.length})
+        </Text>
+        <FileButton onChange={handleImport} accept="text/csv,.csv">
+          {(props) => (
+            <Button size="xs" variant="default" {...props}>
+              Import CSV
+            </Button>
+          )}
+        </FileButton>
+      </Group>
+      <TextInput
+        size="xs"
+        placeholder="Search name or SKU"
+        value={query}
+        onChange={(e) => {
+          setQuery(e.currentTarget.value);
+          if (!e.currentTarget.value) onShowProduct(undefined);
+        }}
+      />
+      {results.map((product) => (
+        <UnstyledButton
+          key={product.sku}
+          onClick={() => handleSelect(product.sku)}
+          bg={product.sku === activeSku ? "gray.1" : undefined}
+          px={4}
+        >
+          <Text size="sm">{product.name || product.sku}</Text>
+          <Text size="xs" c="dimmed">
+            {product.sku}
+            {product.department && ` · ${product.department}`}
+            {!product.location && " · not placed"}
+          </Text>
+        </UnstyledButton>
+      ))}
+      {activeProduct && (
+        <Group gap="xs">
+          <Button size="xs" variant="default" onClick={handlePlace}>
+            Place at selection
+          </Button>
+          {activeProduct.location && (
+            <Button
+              size="xs"
+              variant="subtle"
+              onClick={() => onClearPlacement(activeProduct.sku)}
+            >
+              Clear
+            </Button>
+          )}
+        </Group>
+      )}
+      {error && (
+        <Text size="xs" c="red">
+          {error}
+        </Text>
+      )}
+    </Stack>
+  );
+};
@@ -0,0 +1,76 @@
+import {
+  CloseButton,
+  Group,
+  Paper,
+  Select,
+  Stack,
+  Text,
+  TextInput,
+  Textarea,
+} from "@mantine/core";
+import { RegionMeta, isRegionCategory, regionCategories } from "./regions";
+
+type RegionInspectorProps = {
+  region?: { id: number; meta: RegionMeta };
+  onChange: (meta: RegionMeta) => void;
+  onClose: () => void;
+};
+
+export const RegionInspector = ({
+  region,
+  onChange,
+  onClose,
+}: RegionInspectorProps) => {
+  if (!region) {
+    return (
+      <Paper shadow="sm" p="sm" w={240}>
+        <Stack gap="xs">
+          <Text fw={500}>Regions</Text>
+          <Text size="xs" c="dimmed">
+            Click a region to name it, pick its category and add notes.
+            Alt-click does the same with any other tool.
+          </Text>
+        </Stack>
+      </Paper>
+    );
+  }
+
+  const { id, meta } = region;
+
+  return (
+    <Paper shadow="sm" p="sm" w={240}>
+      <Stack gap="xs">
+        <Group justify="space-between">
+          <Text fw={500}>Region {id}</Text>
+          <CloseButton size="sm" onClick={onClose} />
+        </Group>
+        <TextInput
+          label="Name"
+          placeholder="Aisle 7"
+          value={meta.name}
+          onChange={(e) => onChange({ ...meta, name: e.currentTarget.value })}
+        />
+        <Select
+          label="Category"
+          placeholder="None"
+          clearable
+          data={[...regionCategories]}
+          value={meta.category ?? null}
+          onChange={(value) =>
+            onChange({
+              ...meta,
+              category: isRegionCategory(value) ? value : undefined,
+            })
+          }
+        />
+        <Textarea
+          label="Notes"
+          autosize
+          minRows={3}
+          value={meta.notes}
+          onChange={(e) => onChange({ ...meta, notes: e.currentTarget.value })}
+        />
+      </Stack>
+    </Paper>
+  );
+};
@@ -0,0 +1,146 @@
+import { useState } from "react";
+import { Paper, Stack, Table, Text, UnstyledButton } from "@mantine/core";
+import { ColorStats, RegionStats } from "./regionStats";
+
+type SortKey = "region" | "area" | "perimeter" | "width" | "height";
+
+const sortValues: Record<SortKey, (stats: RegionStats) => number | string> = {
+  region: (stats) => stats.name || `#${stats.regionId}`,
+  area: (stats) => stats.area,
+  perimeter: (stats) => stats.perimeter,
+  width: (stats) => stats.bounds.maxCol - stats.bounds.minCol + 1,
+  height: (stats) => stats.bounds.maxRow - stats.bounds.minRow + 1,
+};
+
+const compare = (a: number | string, b: number | string) =>
+  typeof a === "number" && typeof b === "number"
+    ? a - b
+    : String(a).localeCompare(String(b));
+
+const Swatch = ({ color }: { color: string }) => (
+  <span
+    style={{
+      display: "inline-block",
+      height: 10,
+      width: 10,
+      backgroundColor: color,
+    }}
+  />
+);
+
+type RegionStatsPanelProps = {
+  regions: RegionStats[];
+  colors: ColorStats[];
+  // painted extents of the whole map, in cells
+  extents?: { width: number; height: number };
+  selectedRegionId?: number;
+  onSelectRegion: (regionId: number) => void;
+};
+
+export const RegionStatsPanel = ({
+  regions,
+  colors,
+  extents,
+  selectedRegionId,
+  onSelectRegion,
+}: RegionStatsPanelProps) => {
+  const [sortKey, setSortKey] = useState<SortKey>("area");
+  const [descending, setDescending] = useState(true);
+
+  const sorted = [...regions].sort((a, b) => {
+    const order = compare(sortValues[sortKey](a), sortValues[sortKey](b));
+    return descending ? -order : order;
+  });
+
+  const header = (key: SortKey, label: string) => (
+    <Table.Th>
+      <UnstyledButton
+        fz="xs"
+        fw={700}
+        onClick={() => {
+          if (key === sortKey) setDescending(!descending);
+          else setSortKey(key);
+        }}
+      >
+        {label}
+        {key === sortKey && (descending ? " ▼" : " ▲")}
+      </UnstyledButton>
+    </Table.Th>
+  );
+
+  return (
+    <Paper shadow="sm" p="sm">
+      <Stack gap="xs">
+        <Text fw={500} size="sm">
+          Regions
+        </Text>
+        {extents && (
+          <Text size="xs" c="dimmed">
+            Map extents: {extents.width} × {extents.height} cells
+          </Text>
+        )}
+        <Table.ScrollContainer minWidth={420} mah={320}>
+          <Table fz="xs" highlightOnHover stickyHeader>
+            <Table.Thead>
+              <Table.Tr>
+                {header("region", "Region")}
+                {header("area", "Area")}
+                {header("perimeter", "Perimeter")}
+                {header("width", "W")}
+                {header("height", "H")}
+                <Table.Th>Centroid</Table.Th>
+              </Table.Tr>
+            </Table.Thead>
+            <Table.Tbody>
+              {sorted.map((stats) => (
+                <Table.Tr
+                  key={stats.regionId}
+                  onClick={() => onSelectRegion(stats.regionId)}
+                  bg={
+                    stats.regionId === selectedRegionId ? "gray.1" : undefined
+                  }
+                  style={{ cursor: "pointer" }}
+                >
+                  <Table.Td>
+                    <Swatch color={stats.fillStyle} />{" "}
+                    {stats.name || `#${stats.regionId}`}
+                  </Table.Td>
+                  <Table.Td>{stats.area}</Table.Td>
+                  <Table.Td>{stats.perimeter}</Table.Td>
+                  <Table.Td>{sortValues.width(stats)}</Table.Td>
+                  <Table.Td>{sortValues.height(stats)}</Table.Td>
+                  <Table.Td>
+                    {stats.centroid.row.toFixed(1)},{" "}
+                    {stats.centroid.col.toFixed(1)}
+                  </Table.Td>
+                </Table.Tr>
+              ))}
+            </Table.Tbody>
+          </Table>
+        </Table.ScrollContainer>
+        <Table fz="xs">
+          <Table.Thead>
+            <Table.Tr>
+              <Table.Th>Color</Table.Th>
+              <Table.Th>Regions</Table.Th>
+              <Table.Th>Area</Table.Th>
+              <Table.Th>Perimeter</Table.Th>
+            </Table.Tr>
+          </Table.Thead>
+          <Table.Tbody>
+            {colors.map((color) => (
+              <Table.Tr key={color.fillStyle}>
+                <Table.Td>
+                  <Swatch color={color.fillStyle} />
+                </Table.Td>
+                <Table.Td>{color.regionCount}</Table.Td>
+                <Table.Td>{color.area}</Table.Td>
+                <Table.Td>{color.perimeter}</Table.Td>
+              </Table.Tr>
+            ))}
+          </Table.Tbody>
+        </Table>
+      </Stack>
+    </Paper>
+  );
+};
@@ -0,0 +1,113 @@
+import {
+  Button,
+  Checkbox,
+  Group,
+  Paper,
+  Stack,
+  Text,
+  Tooltip,
+} from "@mantine/core";
+import { RouteRules } from "./pathfinding";
+import { isRegionCategory, regionCategories } from "./regions";
+
+type RoutePanelProps = {
+  rules: RouteRules;
+  fills: string[];
+  // cells walked, undefined while there is no target or no way through
+  routeLength?: number;
+  hasTarget: boolean;
+  onChange: (rules: RouteRules) => void;
+  onClear: () => void;
+};
+
+export const RoutePanel = ({
+  rules,
+  fills,
+  routeLength,
+  hasTarget,
+  onChange,
+  onClear,
+}: RoutePanelProps) => {
+  const toggleFill = (fill: string) =>
+    onChange({
+      ...rules,
+      blockedFills: rules.blockedFills.includes(fill)
+        ? rules.blockedFills.filter((blocked) => blocked !== fill)
+        : [...rules.blockedFills, fill],
+    });
+
+  let status = "Click a start cell, then a target cell";
+  if (hasTarget) {
+    status =
+      routeLength === undefined ? "No walkable path" : `${routeLength} cells`;
+  }
+
+  return (
+    <Paper shadow="sm" p="sm" w={240}>
+      <Stack gap="xs">
+        <Group justify="space-between">
+          <Text fw={500} size="sm">
+            Route
+          </Text>
+          <Button size="xs" variant="subtle" onClick={onClear}>
+            Clear
+          </Button>
+        </Group>
+        <Text
+          size="xs"
+          c={hasTarget && routeLength === undefined ? "red" : undefined}
+        >
+          {status}
+        </Text>
+        <Checkbox.Group
+          size="xs"
+          label="Blocking categories"
+          value={rules.blockedCategories}
+          onChange={(values) =>
+            onChange({
+              ...rules,
+              blockedCategories: values.filter(isRegionCategory),
+            })
+          }
+        >
+          <Stack gap={4} mt={4}>
+            {regionCategories.map((category) => (
+              <Checkbox key={category} value={category} label={category} />
+            ))}
+          </Stack>
+        </Checkbox.Group>
+        <Stack gap={4}>
+          <Text size="xs" fw={500}>
+            Blocking colors
+          </Text>
+          <Group gap={4}>
+            {fills.map((fill) => (
+              <Tooltip key={fill} label={fill}>
+                <div
+                  onClick={() => toggleFill(fill)}
+                  style={{
+                    height: 20,
+                    width: 20,
+                    backgroundColor: fill,
+                    cursor: "pointer",
+                    outline: rules.blockedFills.includes(fill)
+                      ? "2px solid black"
+                      : undefined,
+                  }}
+                />
+              </Tooltip>
+            ))}
+          </Group>
+        </Stack>
+        <Checkbox
+          size="xs"
+          label="Unpainted cells are walkable"
+          checked={rules.walkEmpty}
+          onChange={(e) =>
+            onChange({ ...rules, walkEmpty: e.currentTarget.checked })
+          }
+        />
+      </Stack>
+    </Paper>
+  );
+};
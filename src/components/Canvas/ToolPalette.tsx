@@ -0,0 +1,22 @@
+import { SegmentedControl } from "@mantine/core";
+import { Tool, toolLabels } from "./tools";
+
+type ToolPaletteProps = {
+  tool: Tool;
+  onSelectTool: (tool: Tool) => void;
+};
+
+export const ToolPalette = ({ tool, onSelectTool }: ToolPaletteProps) => {
+  return (
+    <SegmentedControl
+      size="xs"
+      orientation="vertical"
+      value={tool}
+      onChange={(value) => onSelectTool(value as Tool)}
+      data={Object.values(Tool).map((value) => ({
+        value,
+        label: toolLabels[value],
+      }))}
+    />
+  );
+};
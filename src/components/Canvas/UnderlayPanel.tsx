@@ -0,0 +1,124 @@
+import { useState } from "react";
+import {
+  Button,
+  FileButton,
+  Group,
+  NumberInput,
+  Slider,
+  Stack,
+  Text,
+} from "@mantine/core";
+import { MapScale, Underlay, formatScale } from "./underlay";
+
+type UnderlayPanelProps = {
+  underlay?: Underlay;
+  mapScale?: MapScale;
+  onImport: (file: File) => Promise<void>;
+  onChange: (update: Partial<Omit<Underlay, "src">>) => void;
+  onRemove: () => void;
+};
+
+// the active floor's floor plan; the scale is shared by every floor
+export const UnderlayPanel = ({
+  underlay,
+  mapScale,
+  onImport,
+  onChange,
+  onRemove,
+}: UnderlayPanelProps) => {
+  const [error, setError] = useState<string>();
+
+  const handleImport = async (file: File | null) => {
+    if (!file) return;
+
+    try {
+      await onImport(file);
+      setError(undefined);
+    } catch (e) {
+      setError(e instanceof Error ? e.message : "Couldn't import image");
+    }
+  };
+
+  // empty or partly typed numbers are left alone
+  const handleNumber =
+    (key: "x" | "y" | "rotation" | "scale") => (value: string | number) => {
+      if (typeof value === "number") onChange({ [key]: value });
+    };
+
+  return (
+    <Stack gap="xs" w={240}>
+      <Text fw={500} size="sm">
+        Floor plan
+      </Text>
+      <Group gap="xs">
+        <FileButton onChange={handleImport} accept="image/*">
+          {(props) => (
+            <Button size="xs" variant="default" {...props}>
+              {underlay ? "Replace image" : "Import image"}
+            </Button>
+          )}
+        </FileButton>
+        {underlay && (
+          <Button size="xs" variant="subtle" onClick={onRemove}>
+            Remove
+          </Button>
+        )}
+      </Group>
+      {error && (
+        <Text size="xs" c="red">
+          {error}
+        </Text>
+      )}
+      {underlay && (
+        <>
+          <Slider
+            size="xs"
+            min={0}
+            max={1}
+            step={0.05}
+            label={(value) => `${Math.round(value * 100)}%`}
+            value={underlay.opacity}
+            onChange={(opacity) => onChange({ opacity })}
+          />
+          <Group gap="xs" grow>
+            <NumberInput
+              size="xs"
+              label="X"
+              value={underlay.x}
+              onChange={handleNumber("x")}
+            />
+            <NumberInput
+              size="xs"
+              label="Y"
+              value={underlay.y}
+              onChange={handleNumber("y")}
+            />
+          </Group>
+          <Group gap="xs" grow>
+            <NumberInput
+              size="xs"
+              label="Rotation"
+              suffix="°"
+              value={underlay.rotation}
+              onChange={handleNumber("rotation")}
+            />
+            <NumberInput
+              size="xs"
+              label="Scale"
+              min={0.01}
+              step={0.05}
+              decimalScale={3}
+              value={underlay.scale}
+              onChange={handleNumber("scale")}
+            />
+          </Group>
+        </>
+      )}
+      <Text size="xs" c="dimmed">
+        {mapScale
+          ? formatScale(mapScale)
+          : "Not calibrated, use the Calibrate tool"}
+      </Text>
+    </Stack>
+  );
+};
@@ -0,0 +1,109 @@
+import { useState } from "react";
+import {
+  Button,
+  Checkbox,
+  CloseButton,
+  Group,
+  Stack,
+  Text,
+  TextInput,
+} from "@mantine/core";
+import { ViewBookmark } from "./view";
+
+type ViewPanelProps = {
+  bookmarks: ViewBookmark[];
+  canZoomToRegion: boolean;
+  showMinimap: boolean;
+  showRegionLabels: boolean;
+  onZoomToFit: () => void;
+  onZoomToRegion: () => void;
+  onShowMinimapChange: (showMinimap: boolean) => void;
+  onShowRegionLabelsChange: (showRegionLabels: boolean) => void;
+  onAddBookmark: (name: string) => void;
+  onGoToBookmark: (bookmarkId: string) => void;
+  onRemoveBookmark: (bookmarkId: string) => void;
+};
+
+export const ViewPanel = ({
+  bookmarks,
+  canZoomToRegion,
+  showMinimap,
+  showRegionLabels,
+  onZoomToFit,
+  onZoomToRegion,
+  onShowMinimapChange,
+  onShowRegionLabelsChange,
+  onAddBookmark,
+  onGoToBookmark,
+  onRemoveBookmark,
+}: ViewPanelProps) => {
+  const [name, setName] = useState("");
+
+  const handleAdd = () => {
+    onAddBookmark(name.trim() || `View ${bookmarks.length + 1}`);
+    setName("");
+  };
+
+  return (
+    <Stack gap="xs" w={240}>
+      <Text fw={500} size="sm">
+        View
+      </Text>
+      <Group gap="xs">
+        <Button size="xs" variant="default" onClick={onZoomToFit}>
+          Zoom to fit
+        </Button>
+        <Button
+          size="xs"
+          variant="default"
+          disabled={!canZoomToRegion}
+          onClick={onZoomToRegion}
+        >
+          Zoom to region
+        </Button>
+      </Group>
+      <Checkbox
+        size="xs"
+        label="Minimap"
+        checked={showMinimap}
+        onChange={(e) => onShowMinimapChange(e.currentTarget.checked)}
+      />
+      <Checkbox
+        size="xs"
+        label="Region labels"
+        checked={showRegionLabels}
+        onChange={(e) => onShowRegionLabelsChange(e.currentTarget.checked)}
+      />
+      <Group gap="xs" wrap="nowrap">
+        <TextInput
+          size="xs"
+          style={{ flex: 1 }}
+          placeholder="Bookmark name"
+          value={name}
+          onChange={(e) => setName(e.currentTarget.value)}
+          onKeyDown={(e) => e.key === "Enter" && handleAdd()}
+        />
+        <Button size="xs" variant="default" onClick={handleAdd}>
+          Save view
+        </Button>
+      </Group>
+      {bookmarks.map((bookmark) => (
+        <Group key={bookmark.id} gap="xs" wrap="nowrap">
+          <Button
+            size="xs"
+            style={{ flex: 1 }}
+            justify="start"
+            variant="subtle"
+            onClick={() => onGoToBookmark(bookmark.id)}
+          >
+            {bookmark.name}
+          </Button>
+          <CloseButton
+            size="sm"
+            onClick={() => onRemoveBookmark(bookmark.id)}
+          />
+        </Group>
+      ))}
+    </Stack>
+  );
+};
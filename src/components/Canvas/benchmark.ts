@@ -0,0 +1,76 @@
+// profiling region bookkeeping, see benchmark.html
+import { GridCellCoord } from "./types";
+
+type BenchmarkCanvas = {
+  setFillStyle(color: string): void;
+  paintCell(coord: GridCellCoord): void;
+  eraseCell(coord: GridCellCoord): void;
+  transact(fn: () => void): void;
+};
+
+const time = (fn: () => void) => {
+  const start = performance.now();
+  fn();
+  return performance.now() - start;
+};
+
+const average = (samples: number[]) =>
+  samples.reduce((sum, sample) => sum + sample, 0) / samples.length;
+
+/**
+ * Fills a size × size region (90k cells by default) and paints strokes into
+ * it: short ones that only merge, full-width ones that cut the region in two,
+ * and erase strokes that cut it again. It paints over whatever is there, so
+ * it gets a canvas of its own. Returns the timings in ms by case.
+ */
+export const benchmarkRegionStrokes = (
+  canvas: BenchmarkCanvas,
+  size = 300,
+  strokes = 10
+) => {
+  const first = -Math.floor(size / 2);
+  const last = first + size - 1;
+
+  const stroke = (row: number, fromCol: number, toCol: number, erase = false) =>
+    time(() =>
+      canvas.transact(() => {
+        for (let col = fromCol; col <= toCol; col++) {
+          if (erase) canvas.eraseCell({ row, col });
+          else canvas.paintCell({ row, col });
+        }
+      })
+    );
+
+  canvas.setFillStyle("darkseagreen");
+  const fill = time(() =>
+    canvas.transact(() => {
+      for (let row = first; row <= last; row++) {
+        for (let col = first; col <= last; col++) {
+          canvas.paintCell({ row, col });
+        }
+      }
+    })
+  );
+
+  const rowStep = Math.floor(size / (strokes + 1));
+  const rows = Array.from(
+    { length: strokes },
+    (_, i) => first + rowStep * (i + 1)
+  );
+
+  canvas.setFillStyle("#4b76ff");
+  const shortStrokes = rows.map((row) => stroke(row, first + 10, first + 40));
+  const cuttingStrokes = rows.map((row) => stroke(row + 1, first, last));
+
+  canvas.setFillStyle("darkseagreen");
+  const mergingStrokes = rows.map((row) => stroke(row + 1, first, last));
+  const erasingStrokes = rows.map((row) => stroke(row + 2, first, last, true));
+
+  return {
+    [`fill ${size}×${size}`]: fill,
+    "short stroke (merge only)": average(shortStrokes),
+    "full-width stroke (split)": average(cuttingStrokes),
+    "full-width stroke (merge)": average(mergingStrokes),
+    "full-width erase (split)": average(erasingStrokes),
+  };
+};
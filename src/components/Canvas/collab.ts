@@ -0,0 +1,237 @@
+import { CellDoc, CellOp, RegionMetaOp } from "./crdt";
+import { RegionMeta } from "./regions";
+import { XYCoord } from "./types";
+
+export type CollabPeer = {
+  clientId: string;
+  name: string;
+  color: string;
+};
+
+// in world coordinates; no position means the pointer left the canvas
+export type RemoteCursor = CollabPeer & {
+  floorId: string;
+  position?: XYCoord;
+};
+
+export type CollabStatus = "connecting" | "connected" | "disconnected";
+
+/**
+ * Messages through the relay. A client says hello with its identity and gets
+ * a snapshot of the relay's ops and the peers already there; ops and cursors
+ * are passed on to everyone else, and the relay announces who left.
+ */
+export type CollabMessage =
+  | { type: "hello"; peer: CollabPeer }
+  | {
+      type: "snapshot";
+      ops: CellOp[];
+      regionMeta: RegionMetaOp[];
+      peers: CollabPeer[];
+    }
+  | { type: "ops"; ops: CellOp[] }
+  | { type: "regionMeta"; ops: RegionMetaOp[] }
+  | { type: "join"; peer: CollabPeer }
+  | { type: "cursor"; cursor: RemoteCursor }
+  | { type: "leave"; clientId: string };
+
+// ops passed on are the ones that won, i.e. the cells that have to change
+export type CollabHandlers = {
+  onSnapshot: (ops: CellOp[], regionMetaOps: RegionMetaOp[]) => void;
+  onOps: (ops: CellOp[]) => void;
+  onRegionMeta: (ops: RegionMetaOp[]) => void;
+  onCursor: (cursor: RemoteCursor) => void;
+  onLeave: (clientId: string) => void;
+  onStatusChange: () => void;
+};
+
+export type LocalCell = {
+  floorId: string;
+  layerId: string;
+  row: number;
+  col: number;
+  fill: string;
+};
+
+export type LocalRegionMeta = {
+  floorId: string;
+  layerId: string;
+  row: number;
+  col: number;
+  meta: RegionMeta;
+};
+
+const peerColors = [
+  "#e8590c",
+  "#2f9e44",
+  "#1971c2",
+  "#9c36b5",
+  "#c2255c",
+  "#0c8599",
+];
+
+const CURSOR_INTERVAL_MS = 50;
+
+export const createClientId = () =>
+  Math.random().toString(36).slice(2, 10) + Date.now().toString(36);
+
+export class CollabClient {
+  socket: WebSocket;
+  doc: CellDoc;
+  peer: CollabPeer;
+  peers = new Map<string, CollabPeer>();
+  status: CollabStatus = "connecting";
+  lastCursorSent = 0;
+
+  constructor(
+    url: string,
+    name: string,
+    readonly handlers: CollabHandlers
+  ) {
+    const clientId = createClientId();
+    this.doc = new CellDoc(clientId);
+    this.peer = {
+      clientId,
+      name,
+      color: peerColors[Math.floor(Math.random() * peerColors.length)],
+    };
+
+    this.socket = new WebSocket(url);
+    this.socket.addEventListener("open", this.handleOpen);
+    this.socket.addEventListener("message", this.handleMessage);
+    this.socket.addEventListener("close", this.handleClose);
+  }
+
+  send(message: CollabMessage) {
+    if (this.socket.readyState !== WebSocket.OPEN) return;
+    this.socket.send(JSON.stringify(message));
+  }
+
+  handleOpen = () => {
+    this.send({ type: "hello", peer: this.peer });
+  };
+
+  handleClose = () => {
+    this.status = "disconnected";
+    this.peers.clear();
+    this.handlers.onStatusChange();
+  };
+
+  handleMessage = (e: MessageEvent) => {
+    let message: CollabMessage;
+    try {
+      message = JSON.parse(String(e.data));
+    } catch {
+      return;
+    }
+
+    switch (message.type) {
+      case "snapshot": {
+        this.status = "connected";
+        message.peers.forEach((peer) => this.peers.set(peer.clientId, peer));
+        this.handlers.onSnapshot(
+          message.ops.filter((op) => this.doc.apply(op)),
+          message.regionMeta.filter((op) => this.doc.applyRegionMeta(op))
+        );
+        this.handlers.onStatusChange();
+        break;
+      }
+      case "ops": {
+        const won = message.ops.filter((op) => this.doc.apply(op));
+        if (won.length) this.handlers.onOps(won);
+        break;
+      }
+      case "regionMeta": {
+        const won = message.ops.filter((op) => this.doc.applyRegionMeta(op));
+        if (won.length) this.handlers.onRegionMeta(won);
+        break;
+      }
+      case "join": {
+        this.peers.set(message.peer.clientId, message.peer);
+        this.handlers.onStatusChange();
+        break;
+      }
+      case "cursor": {
+        this.handlers.onCursor(message.cursor);
+        break;
+      }
+      case "leave": {
+        this.peers.delete(message.clientId);
+        this.handlers.onLeave(message.clientId);
+        this.handlers.onStatusChange();
+        break;
+      }
+    }
+  };
+
+  /**
+   * Offers cells & region metadata the session doesn't know yet, e.g. the
+   * map this client had open before joining. They're written at clock 0, so
+   * anything the session has already done to them wins over them.
+   */
+  seed(cells: LocalCell[], regionMeta: LocalRegionMeta[]) {
+    const ops: CellOp[] = [];
+    const regionMetaOps: RegionMetaOp[] = [];
+
+    for (const cell of cells) {
+      const op: CellOp = { ...cell, clock: 0, clientId: this.doc.clientId };
+      if (this.doc.apply(op)) ops.push(op);
+    }
+    for (const entry of regionMeta) {
+      const op: RegionMetaOp = {
+        ...entry,
+        clock: 0,
+        clientId: this.doc.clientId,
+      };
+      if (this.doc.applyRegionMeta(op)) regionMetaOps.push(op);
+    }
+
+    if (ops.length) this.send({ type: "ops", ops });
+    if (regionMetaOps.length) {
+      this.send({ type: "regionMeta", ops: regionMetaOps });
+    }
+  }
+
+  // a null fill erases
+  publishCells(
+    floorId: string,
+    layerId: string,
+    changes: Array<{ row: number; col: number; fill: string | null }>
+  ) {
+    if (!changes.length) return;
+
+    const ops = changes.map((change) =>
+      this.doc.write(floorId, layerId, change, change.fill)
+    );
+    this.send({ type: "ops", ops });
+  }
+
+  // by anchor, see RegionMetaOp; a null meta clears it
+  publishRegionMeta(
+    floorId: string,
+    layerId: string,
+    changes: Array<{ row: number; col: number; meta: RegionMeta | null }>
+  ) {
+    if (!changes.length) return;
+
+    const ops = changes.map((change) =>
+      this.doc.writeRegionMeta(floorId, layerId, change, change.meta)
+    );
+    this.send({ type: "regionMeta", ops });
+  }
+
+  // throttled, except for hiding the cursor
+  publishCursor(floorId: string, position: XYCoord | undefined) {
+    const now = Date.now();
+    if (position && now - this.lastCursorSent < CURSOR_INTERVAL_MS) return;
+    this.lastCursorSent = now;
+
+    this.send({ type: "cursor", cursor: { ...this.peer, floorId, position } });
+  }
+
+  close() {
+    this.socket.removeEventListener("close", this.handleClose);
+    this.socket.close();
+    this.handleClose();
+  }
+}
@@ -0,0 +1,131 @@
+import { RegionMeta } from "./regions";
+import { GridCellCoord } from "./types";
+
+/**
+ * A write to one cell of one layer. `fill` is null for an erased cell, which
+ * is kept as a tombstone so a late, older paint can't bring the cell back.
+ */
+export type CellOp = {
+  floorId: string;
+  layerId: string;
+  row: number;
+  col: number;
+  fill: string | null;
+  clock: number;
+  clientId: string;
+};
+
+/**
+ * A write to a region's metadata. Region ids are each client's own, so the
+ * region goes by its anchor instead: its first cell by row, then column,
+ * which every replica holding the same cells agrees on. `meta` is null once
+ * the metadata was cleared.
+ */
+export type RegionMetaOp = Omit<CellOp, "fill"> & { meta: RegionMeta | null };
+
+type OpStamp = Pick<CellOp, "clock" | "clientId">;
+
+export const cellOpKey = ({
+  floorId,
+  layerId,
+  row,
+  col,
+}: Pick<CellOp, "floorId" | "layerId" | "row" | "col">) =>
+  `${floorId}/${layerId}/${row}.${col}`;
+
+// Lamport order, with the client id breaking ties so every replica agrees
+export const isNewerOp = (op: OpStamp, than: OpStamp | undefined) =>
+  !than ||
+  op.clock > than.clock ||
+  (op.clock === than.clock && op.clientId > than.clientId);
+
+export const getRegionAnchor = (cells: GridCellCoord[]) =>
+  cells.reduce<GridCellCoord | undefined>(
+    (anchor, cell) =>
+      !anchor ||
+      cell.row < anchor.row ||
+      (cell.row === anchor.row && cell.col < anchor.col)
+        ? { row: cell.row, col: cell.col }
+        : anchor,
+    undefined
+  );
+
+/**
+ * Last-writer-wins map of cell fills. Replicas that have applied the same ops,
+ * in any order, hold the same fills; the map only stores fills, so region ids
+ * are left to each client to derive from the cells. Region metadata is kept
+ * the same way, by anchor.
+ */
+export class CellDoc {
+  ops = new Map<string, CellOp>();
+  regionMetaOps = new Map<string, RegionMetaOp>();
+  clock = 0;
+
+  constructor(readonly clientId: string) {}
+
+  // a local edit, ordered after everything this replica has seen
+  write(
+    floorId: string,
+    layerId: string,
+    { row, col }: GridCellCoord,
+    fill: string | null
+  ) {
+    const op: CellOp = {
+      floorId,
+      layerId,
+      row,
+      col,
+      fill,
+      clock: ++this.clock,
+      clientId: this.clientId,
+    };
+    this.ops.set(cellOpKey(op), op);
+    return op;
+  }
+
+  // returns whether the op won, i.e. whether the cell has to change
+  apply(op: CellOp) {
+    this.clock = Math.max(this.clock, op.clock);
+
+    const key = cellOpKey(op);
+    if (!isNewerOp(op, this.ops.get(key))) return false;
+
+    this.ops.set(key, op);
+    return true;
+  }
+
+  writeRegionMeta(
+    floorId: string,
+    layerId: string,
+    { row, col }: GridCellCoord,
+    meta: RegionMeta | null
+  ) {
+    const op: RegionMetaOp = {
+      floorId,
+      layerId,
+      row,
+      col,
+      meta,
+      clock: ++this.clock,
+      clientId: this.clientId,
+    };
+    this.regionMetaOps.set(cellOpKey(op), op);
+    return op;
+  }
+
+  applyRegionMeta(op: RegionMetaOp) {
+    this.clock = Math.max(this.clock, op.clock);
+
+    const key = cellOpKey(op);
+    if (!isNewerOp(op, this.regionMetaOps.get(key))) return false;
+
+    this.regionMetaOps.set(key, op);
+    return true;
+  }
+
+  clear() {
+    this.ops.clear();
+    this.regionMetaOps.clear();
+    this.clock = 0;
+  }
+}
@@ -0,0 +1,12 @@
+export const downloadFile = (
+  contents: string,
+  fileName: string,
+  type: string
+) => {
+  const url = URL.createObjectURL(new Blob([contents], { type }));
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+};
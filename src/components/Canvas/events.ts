@@ -0,0 +1,96 @@
+import { CellChange, CellState, RegionMerge, RegionSplit } from "./history";
+import { coordKey } from "./selection";
+import { GridCellCoord } from "./types";
+
+// the layer an edit happened on
+type EditTarget = { floorId: string; layerId: string };
+
+/**
+ * What the Canvas reports to subscribers. Edits are reported once per
+ * transaction, so a brush stroke or a fill is one event of each kind with
+ * every cell it touched, each with its state from before & after. Undo &
+ * redo report the same way; undo turns merges into splits and back.
+ */
+export type CanvasEvents = {
+  cellPainted: EditTarget & { changes: CellChange[] };
+  cellErased: EditTarget & { changes: CellChange[] };
+  // every cell above, and the ones that only moved to another region
+  cellsChanged: EditTarget & { changes: CellChange[] };
+  regionCreated: EditTarget & { regionIds: number[] };
+  regionMerged: EditTarget & { merges: RegionMerge[] };
+  regionSplit: EditTarget & { splits: RegionSplit[] };
+  selectionChanged: { before: GridCellCoord[]; after: GridCellCoord[] };
+  // at most once a frame, however often the view moved in it
+  viewChanged: { before: DOMMatrix; after: DOMMatrix };
+};
+
+type Listener<T> = (payload: T) => void;
+
+export class EventEmitter<Events> {
+  listeners = new Map<keyof Events, Set<Listener<never>>>();
+
+  // returns the unsubscribe function
+  on<K extends keyof Events>(type: K, listener: Listener<Events[K]>) {
+    const listeners = this.listeners.get(type) ?? new Set();
+    listeners.add(listener);
+    this.listeners.set(type, listeners);
+
+    return () => this.off(type, listener);
+  }
+
+  off<K extends keyof Events>(type: K, listener: Listener<Events[K]>) {
+    this.listeners.get(type)?.delete(listener);
+  }
+
+  hasListeners(type?: keyof Events) {
+    if (type !== undefined) return !!this.listeners.get(type)?.size;
+    return [...this.listeners.values()].some(({ size }) => size);
+  }
+
+  emit<K extends keyof Events>(type: K, payload: Events[K]) {
+    const listeners = this.listeners.get(type) as
+      | Set<Listener<Events[K]>>
+      | undefined;
+    listeners?.forEach((listener) => listener(payload));
+  }
+}
+
+// collects the cells one transaction touched until it's reported
+export class EditEventBatch {
+  cellsBefore = new Map<string, { coord: GridCellCoord; state: CellState }>();
+
+  constructor(
+    public floorId: string,
+    public layerId: string
+  ) {}
+
+  // only the first state counts, like the edit history
+  recordCell(coord: GridCellCoord, state: CellState) {
+    const key = coordKey(coord);
+    if (this.cellsBefore.has(key)) return;
+
+    this.cellsBefore.set(key, {
+      coord: { row: coord.row, col: coord.col },
+      state: state && { ...state },
+    });
+  }
+
+  getCellChanges(readCell: (coord: GridCellCoord) => CellState) {
+    const changes: CellChange[] = [];
+
+    this.cellsBefore.forEach(({ coord, state: before }) => {
+      const current = readCell(coord);
+      const after = current && { ...current };
+      if (
+        before?.fillStyle === after?.fillStyle &&
+        before?.regionId === after?.regionId
+      ) {
+        return;
+      }
+
+      changes.push({ coord, before, after });
+    });
+
+    return changes;
+  }
+}
@@ -0,0 +1,86 @@
+import { MapLayer, createDefaultLayers } from "./layers";
+import { GridCellCoord } from "./types";
+import { Underlay } from "./underlay";
+
+export type FloorSettings = {
+  id: string;
+  name: string;
+};
+
+// new maps and maps saved before floors existed have just this one
+export const defaultFloor: FloorSettings = {
+  id: "ground",
+  name: "Ground floor",
+};
+
+/**
+ * One storey of the store: an independent grid with its own stack of layers.
+ * Floors are ordered bottom to top, so the one before a floor is below it.
+ */
+export class MapFloor {
+  layers = createDefaultLayers();
+  activeLayer = this.layers[0];
+  // the floor plan traced on this floor, if any
+  underlay?: Underlay;
+
+  constructor(
+    readonly id: string,
+    public name: string
+  ) {}
+
+  get settings(): FloorSettings {
+    return { id: this.id, name: this.name };
+  }
+
+  getLayer(layerId: string) {
+    const layer = this.layers.find(({ id }) => id === layerId);
+    if (!layer) throw new Error(`No layer "${layerId}" on floor "${this.id}"`);
+    return layer;
+  }
+
+  setLayers(layers: MapLayer[]) {
+    this.layers = layers;
+    this.activeLayer = layers[0];
+  }
+}
+
+export const createFloor = (floors: MapFloor[]) => {
+  let n = floors.length + 1;
+  while (floors.some(({ id }) => id === `floor-${n}`)) n++;
+
+  return new MapFloor(`floor-${n}`, `Floor ${n}`);
+};
+
+export const connectorKinds = ["stairs", "elevator", "escalator"] as const;
+
+export type ConnectorKind = (typeof connectorKinds)[number];
+
+export const isConnectorKind = (value: unknown): value is ConnectorKind =>
+  connectorKinds.includes(value as ConnectorKind);
+
+// drawn on the connector's cells
+export const connectorGlyphs: Record<ConnectorKind, string> = {
+  stairs: "S",
+  elevator: "E",
+  escalator: "⇅",
+};
+
+export type FloorCellCoord = GridCellCoord & { floorId: string };
+
+/**
+ * Stairs, an elevator or an escalator, linking a cell on each floor it
+ * serves. An elevator can stop on any number of floors; a connector that has
+ * only one end so far is still being placed.
+ */
+export type Connector = {
+  id: string;
+  kind: ConnectorKind;
+  ends: FloorCellCoord[];
+};
+
+export const createConnectorId = (connectors: Connector[]) => {
+  let n = connectors.length + 1;
+  while (connectors.some(({ id }) => id === `connector-${n}`)) n++;
+
+  return `connector-${n}`;
+};
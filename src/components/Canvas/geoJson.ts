@@ -0,0 +1,294 @@
+import tinycolor from "tinycolor2";
+import {
+  OutlineRing,
+  groupCellsByRegion,
+  ringArea,
+  traceOutline,
+} from "./outline";
+import { RegionMeta, isRegionCategory } from "./regions";
+import { GridCell, GridCellCoord, XYCoord } from "./types";
+
+/**
+ * Where the grid sits in the other system's coordinates: the position of
+ * the top left corner of cell (0, 0) and how many units one cell is wide.
+ * GeoJSON's y axis points up, so rows go down from the origin.
+ */
+export type GeoJsonTransform = {
+  origin: XYCoord;
+  unitsPerCell: number;
+};
+
+// a polygon spanning more than this many cells is most likely in the wrong units
+export const MAX_IMPORT_CELLS = 1_000_000;
+
+export const defaultGeoJsonTransform: GeoJsonTransform = {
+  origin: { x: 0, y: 0 },
+  unitsPerCell: 1,
+};
+
+type Position = [number, number];
+type PolygonCoordinates = Position[][];
+
+export type GeoJsonGeometry =
+  | { type: "Polygon"; coordinates: PolygonCoordinates }
+  | { type: "MultiPolygon"; coordinates: PolygonCoordinates[] };
+
+export type GeoJsonFeature = {
+  type: "Feature";
+  geometry: GeoJsonGeometry;
+  properties: Record<string, unknown>;
+};
+
+export type GeoJsonFeatureCollection = {
+  type: "FeatureCollection";
+  features: GeoJsonFeature[];
+};
+
+export type GeoJsonLayer = {
+  id: string;
+  cells: GridCell[];
+  regionMeta: Map<number, RegionMeta>;
+  getRegionId: (cell: GridCell) => number;
+};
+
+// even-odd ray cast; the point mustn't be on the ring
+const isInRing = ({ x, y }: XYCoord, ring: OutlineRing) => {
+  let inside = false;
+
+  for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+    const a = ring[i];
+    const b = ring[j];
+    if (
+      a.y > y !== b.y > y &&
+      x < a.x + ((y - a.y) * (b.x - a.x)) / (b.y - a.y)
+    ) {
+      inside = !inside;
+    }
+  }
+
+  return inside;
+};
+
+/**
+ * Outer rings come out of traceOutline clockwise, holes counter-clockwise.
+ * A hole goes with the outer ring around the middle of its first edge, a
+ * point no other ring can pass through since every edge is in one ring.
+ */
+const groupRings = (rings: OutlineRing[]) => {
+  const outers = rings.filter((ring) => ringArea(ring) > 0);
+  const polygons = outers.map((outer) => [outer]);
+
+  for (const hole of rings.filter((ring) => ringArea(ring) < 0)) {
+    const probe = {
+      x: (hole[0].x + hole[1].x) / 2,
+      y: (hole[0].y + hole[1].y) / 2,
+    };
+    const index = outers.findIndex((outer) => isInRing(probe, outer));
+    polygons[Math.max(index, 0)]?.push(hole);
+  }
+
+  return polygons;
+};
+
+/**
+ * Every region as a Polygon feature traced from its cell outline, or a
+ * MultiPolygon in the rare case a region's cells only touch at corners.
+ * Rings are reversed so they wind the way RFC 7946 wants once y points up:
+ * outer rings counter-clockwise, holes clockwise.
+ */
+export const exportGeoJson = (
+  layers: GeoJsonLayer[],
+  floorId: string,
+  { origin, unitsPerCell }: GeoJsonTransform
+): GeoJsonFeatureCollection => {
+  const toPosition = ({ x, y }: XYCoord): Position => [
+    origin.x + x * unitsPerCell,
+    origin.y - y * unitsPerCell,
+  ];
+  const toCoordinates = (ring: OutlineRing) =>
+    [...ring, ring[0]].reverse().map(toPosition);
+
+  const features = layers.flatMap(({ id, cells, regionMeta, getRegionId }) =>
+    [...groupCellsByRegion(cells, getRegionId)].map(
+      ([regionId, regionCells]): GeoJsonFeature => {
+        const polygons = groupRings(traceOutline(regionCells)).map((rings) =>
+          rings.map(toCoordinates)
+        );
+        const meta = regionMeta.get(regionId);
+
+        return {
+          type: "Feature",
+          geometry:
+            polygons.length === 1
+              ? { type: "Polygon", coordinates: polygons[0] }
+              : { type: "MultiPolygon", coordinates: polygons },
+          properties: {
+            floorId,
+            layerId: id,
+            regionId,
+            name: meta?.name ?? "",
+            category: meta?.category ?? null,
+            notes: meta?.notes ?? "",
+            color: regionCells[0].fillStyle,
+          },
+        };
+      }
+    )
+  );
+
+  return { type: "FeatureCollection", features };
+};
+
+// polygon rings in cell units (x = col, y = row), with the feature's properties
+export type ImportedPolygon = {
+  rings: XYCoord[][];
+  properties: Record<string, unknown>;
+};
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+const isPosition = (value: unknown) =>
+  Array.isArray(value) &&
+  value.length >= 2 &&
+  typeof value[0] === "number" &&
+  typeof value[1] === "number" &&
+  Number.isFinite(value[0]) &&
+  Number.isFinite(value[1]);
+
+const isPolygonCoordinates = (value: unknown): value is PolygonCoordinates =>
+  Array.isArray(value) &&
+  value.every((ring) => Array.isArray(ring) && ring.every(isPosition));
+
+/**
+ * The polygons of a FeatureCollection, a Feature or a bare geometry, in
+ * cell units. Points & lines have no area to paint and are skipped.
+ */
+export const parseGeoJsonPolygons = (
+  raw: unknown,
+  { origin, unitsPerCell }: GeoJsonTransform
+): ImportedPolygon[] => {
+  if (!isRecord(raw) || typeof raw.type !== "string") {
+    throw new Error("Not a GeoJSON file");
+  }
+
+  const toCell = ([x, y]: Position): XYCoord => ({
+    x: (x - origin.x) / unitsPerCell,
+    y: (origin.y - y) / unitsPerCell,
+  });
+  const polygons: ImportedPolygon[] = [];
+
+  const addGeometry = (
+    geometry: unknown,
+    properties: Record<string, unknown>
+  ) => {
+    if (!isRecord(geometry)) return;
+
+    const { type, coordinates } = geometry;
+    const shapes =
+      type === "Polygon" && isPolygonCoordinates(coordinates)
+        ? [coordinates]
+        : [];
+    if (
+      type === "MultiPolygon" &&
+      Array.isArray(coordinates) &&
+      coordinates.every(isPolygonCoordinates)
+    ) {
+      shapes.push(...coordinates);
+    }
+    if ((type === "Polygon" || type === "MultiPolygon") && !shapes.length) {
+      throw new Error(`GeoJSON has an invalid ${type}`);
+    }
+
+    for (const shape of shapes) {
+      polygons.push({
+        rings: shape.map((ring) => ring.map(toCell)),
+        properties,
+      });
+    }
+  };
+
+  const addFeature = (feature: unknown) => {
+    if (!isRecord(feature)) return;
+    addGeometry(
+      feature.geometry,
+      isRecord(feature.properties) ? feature.properties : {}
+    );
+  };
+
+  if (raw.type === "FeatureCollection") {
+    if (!Array.isArray(raw.features)) {
+      throw new Error("GeoJSON FeatureCollection has no features");
+    }
+    raw.features.forEach(addFeature);
+  } else if (raw.type === "Feature") {
+    addFeature(raw);
+  } else {
+    addGeometry(raw, {});
+  }
+
+  if (!polygons.length) throw new Error("GeoJSON has no polygons");
+  return polygons;
+};
+
+/**
+ * The cells whose centers are inside the polygon, row by row. Crossings are
+ * counted even-odd over all rings, so holes stay empty whichever way the
+ * rings wind.
+ */
+export const rasterizePolygon = (rings: XYCoord[][]): GridCellCoord[] => {
+  const points = rings.flat();
+  if (!points.length) return [];
+
+  const minRow = Math.floor(Math.min(...points.map(({ y }) => y)));
+  const maxRow = Math.ceil(Math.max(...points.map(({ y }) => y)));
+  const minCol = Math.floor(Math.min(...points.map(({ x }) => x)));
+  const maxCol = Math.ceil(Math.max(...points.map(({ x }) => x)));
+  if ((maxRow - minRow) * (maxCol - minCol) > MAX_IMPORT_CELLS) {
+    throw new Error("GeoJSON polygon is too big for the grid, check the units");
+  }
+  const cells: GridCellCoord[] = [];
+
+  for (let row = minRow; row < maxRow; row++) {
+    const centerY = row + 0.5;
+    const crossings: number[] = [];
+
+    for (const ring of rings) {
+      for (let i = 0; i < ring.length; i++) {
+        const a = ring[i];
+        const b = ring[(i + 1) % ring.length];
+        if (a.y <= centerY === b.y <= centerY) continue;
+
+        crossings.push(a.x + ((centerY - a.y) * (b.x - a.x)) / (b.y - a.y));
+      }
+    }
+
+    crossings.sort((a, b) => a - b);
+    for (let i = 0; i + 1 < crossings.length; i += 2) {
+      const fromCol = Math.ceil(crossings[i] - 0.5);
+      const toCol = Math.ceil(crossings[i + 1] - 0.5);
+      for (let col = fromCol; col < toCol; col++) cells.push({ row, col });
+    }
+  }
+
+  return cells;
+};
+
+export const getFeatureColor = (properties: Record<string, unknown>) => {
+  const { color } = properties;
+  if (typeof color === "string" && tinycolor(color).isValid()) return color;
+};
+
+// only when the feature carries any of the metadata
+export const getFeatureRegionMeta = (
+  properties: Record<string, unknown>
+): RegionMeta | undefined => {
+  const { name, category, notes } = properties;
+  const meta: RegionMeta = {
+    name: typeof name === "string" ? name : "",
+    category: isRegionCategory(category) ? category : undefined,
+    notes: typeof notes === "string" ? notes : "",
+  };
+
+  if (meta.name || meta.category || meta.notes) return meta;
+};
@@ -0,0 +1,26 @@
+import { XYCoord } from "./types";
+
+export const LONG_PRESS_MS = 500;
+// a touch that strays further than this, in css pixels, isn't a long press
+export const LONG_PRESS_SLOP = 8;
+// a press that moves further than this pans instead of clicking
+export const CLICK_SLOP = 4;
+// pressing a pen harder widens its brush up to this many cells out
+export const MAX_PEN_RADIUS = 2;
+
+export const pointDistance = (a: XYCoord, b: XYCoord) =>
+  Math.hypot(a.x - b.x, a.y - b.y);
+
+export const midpoint = (a: XYCoord, b: XYCoord) => ({
+  x: (a.x + b.x) / 2,
+  y: (a.y + b.y) / 2,
+});
+
+// the eraser end of a pen reports as button 5 when pressed, bit 32 while held
+export const isEraserEvent = (e: PointerEvent) =>
+  e.pointerType === "pen" && (e.button === 5 || (e.buttons & 32) === 32);
+
+export const penRadius = (e: PointerEvent) =>
+  e.pointerType === "pen"
+    ? Math.min(MAX_PEN_RADIUS, Math.floor(e.pressure * (MAX_PEN_RADIUS + 1)))
+    : 0;
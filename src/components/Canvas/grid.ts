@@ -0,0 +1,97 @@
+import { GridCell, GridCellCoord } from "./types";
+
+const DEFAULT_CHUNK_SIZE = 64;
+
+type GridChunk = {
+  cells: Array<GridCell | undefined>;
+  count: number;
+};
+
+/**
+ * Sparse, unbounded cell storage. Cells live in square chunks keyed by chunk
+ * coordinate, so the grid grows in any direction, negative coordinates
+ * included, and unpainted areas cost nothing.
+ */
+export class ChunkedGrid {
+  chunks = new Map<string, GridChunk>();
+  size = 0;
+
+  constructor(readonly chunkSize = DEFAULT_CHUNK_SIZE) {}
+
+  chunkKey(row: number, col: number) {
+    return `${Math.floor(row / this.chunkSize)}.${Math.floor(
+      col / this.chunkSize
+    )}`;
+  }
+
+  // index within the chunk; the modulo is kept positive for negative coords
+  cellIndex(row: number, col: number) {
+    const size = this.chunkSize;
+    return (
+      (((row % size) + size) % size) * size + (((col % size) + size) % size)
+    );
+  }
+
+  get({ row, col }: GridCellCoord) {
+    return this.chunks.get(this.chunkKey(row, col))?.cells[
+      this.cellIndex(row, col)
+    ];
+  }
+
+  set({ row, col }: GridCellCoord, cell: GridCell) {
+    const key = this.chunkKey(row, col);
+    let chunk = this.chunks.get(key);
+
+    if (!chunk) {
+      chunk = { cells: new Array(this.chunkSize * this.chunkSize), count: 0 };
+      this.chunks.set(key, chunk);
+    }
+
+    const index = this.cellIndex(row, col);
+    if (!chunk.cells[index]) {
+      chunk.count++;
+      this.size++;
+    }
+    chunk.cells[index] = cell;
+  }
+
+  delete({ row, col }: GridCellCoord) {
+    const key = this.chunkKey(row, col);
+    const chunk = this.chunks.get(key);
+    const index = this.cellIndex(row, col);
+    if (!chunk?.cells[index]) return;
+
+    chunk.cells[index] = undefined;
+    chunk.count--;
+    this.size--;
+
+    if (!chunk.count) this.chunks.delete(key);
+  }
+
+  *[Symbol.iterator]() {
+    for (const chunk of this.chunks.values()) {
+      for (const cell of chunk.cells) {
+        if (cell) yield cell;
+      }
+    }
+  }
+
+  toArray() {
+    return [...this];
+  }
+
+  find(predicate: (cell: GridCell) => boolean) {
+    for (const cell of this) {
+      if (predicate(cell)) return cell;
+    }
+  }
+
+  some(predicate: (cell: GridCell) => boolean) {
+    return !!this.find(predicate);
+  }
+
+  clear() {
+    this.chunks.clear();
+    this.size = 0;
+  }
+}
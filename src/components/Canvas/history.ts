@@ -0,0 +1,371 @@
+import { RegionMeta, emptyRegionMeta } from "./regions";
+import { GridCellCoord } from "./types";
+
+// the minimal state a cell can be rebuilt from; neighbors & adjacency are derived
+export type CellState = { fillStyle: string; regionId: number } | undefined;
+
+export type CellChange = {
+  coord: GridCellCoord;
+  before: CellState;
+  after: CellState;
+};
+
+export type RegionChange = {
+  regionId: number;
+  before: RegionMeta | undefined;
+  after: RegionMeta | undefined;
+};
+
+// parent of a region label in the RegionIndex; undefined for roots
+export type RegionParentChange = {
+  label: number;
+  before: number | undefined;
+  after: number | undefined;
+};
+
+// `before` was absorbed into `after`, the root of the merged region
+export type RegionMerge = { before: number[]; after: number };
+
+// `before` was cut apart; it keeps one piece and the others get new ids
+export type RegionSplit = { before: number; after: number[] };
+
+// what the region bookkeeping did, in order, for reporting rather than undo
+export type RegionEdits = {
+  createdRegionIds: number[];
+  merges: RegionMerge[];
+  splits: RegionSplit[];
+};
+
+// the same edits undone: merges become splits and splits merges, newest first;
+// no ids are created by taking regions away
+export const invertRegionEdits = ({
+  merges,
+  splits,
+}: RegionEdits): RegionEdits => ({
+  createdRegionIds: [],
+  merges: splits
+    .map(({ before, after }) => ({ before: after, after: before }))
+    .reverse(),
+  splits: merges
+    .map(({ before, after }) => ({ before: after, after: before }))
+    .reverse(),
+});
+
+export type Transaction = RegionEdits & {
+  floorId: string;
+  layerId: string;
+  changes: CellChange[];
+  regionChanges: RegionChange[];
+  parentChanges: RegionParentChange[];
+  nextRegionIdBefore: number;
+  nextRegionIdAfter: number;
+};
+
+type PendingTransaction = RegionEdits & {
+  before: Map<string, { coord: GridCellCoord; state: CellState }>;
+  regionsBefore: Map<number, RegionMeta | undefined>;
+  parentsBefore: Map<number, number | undefined>;
+  nextRegionId: number;
+  floorId: string;
+  layerId: string;
+};
+
+export type HistoryReader = {
+  readCell: (coord: GridCellCoord) => CellState;
+  readRegion: (regionId: number) => RegionMeta | undefined;
+  readRegionParent: (label: number) => number | undefined;
+};
+
+export type HistoryWriter = {
+  writeCell: (coord: GridCellCoord, state: CellState) => void;
+  writeRegion: (regionId: number, meta: RegionMeta | undefined) => void;
+  writeRegionParent: (label: number, parent: number | undefined) => void;
+};
+
+const DEFAULT_HISTORY_LIMIT = 100;
+
+// the one metadata field that differs, if only one does
+const getChangedField = (
+  before: RegionMeta | undefined,
+  after: RegionMeta
+): keyof RegionMeta | undefined => {
+  const from = before ?? emptyRegionMeta();
+  const fields = (["name", "category", "notes"] as const).filter(
+    (field) => from[field] !== after[field]
+  );
+  if (fields.length === 1) return fields[0];
+};
+
+export class EditHistory {
+  undoStack: Transaction[] = [];
+  redoStack: Transaction[] = [];
+  pending?: PendingTransaction;
+  limit = DEFAULT_HISTORY_LIMIT;
+
+  get isRecording() {
+    return !!this.pending;
+  }
+
+  get canUndo() {
+    return !this.pending && this.undoStack.length > 0;
+  }
+
+  get canRedo() {
+    return !this.pending && this.redoStack.length > 0;
+  }
+
+  // a transaction edits exactly one layer of one floor
+  begin(nextRegionId: number, floorId: string, layerId: string) {
+    if (this.pending) return;
+    this.pending = {
+      before: new Map(),
+      regionsBefore: new Map(),
+      parentsBefore: new Map(),
+      createdRegionIds: [],
+      merges: [],
+      splits: [],
+      nextRegionId,
+      floorId,
+      layerId,
+    };
+  }
+
+  // only the first snapshot of a cell within a transaction is kept
+  record(coord: GridCellCoord, state: CellState) {
+    if (!this.pending) return;
+
+    const key = `${coord.row}.${coord.col}`;
+    if (this.pending.before.has(key)) return;
+
+    this.pending.before.set(key, {
+      coord: { row: coord.row, col: coord.col },
+      state: state && { ...state },
+    });
+  }
+
+  recordRegion(regionId: number, meta: RegionMeta | undefined) {
+    if (!this.pending || this.pending.regionsBefore.has(regionId)) return;
+
+    this.pending.regionsBefore.set(regionId, meta && { ...meta });
+  }
+
+  recordRegionParent(label: number, parent: number | undefined) {
+    if (!this.pending || this.pending.parentsBefore.has(label)) return;
+
+    this.pending.parentsBefore.set(label, parent);
+  }
+
+  recordRegionCreated(regionId: number) {
+    this.pending?.createdRegionIds.push(regionId);
+  }
+
+  recordRegionMerge(merge: RegionMerge) {
+    this.pending?.merges.push(merge);
+  }
+
+  recordRegionSplit(split: RegionSplit) {
+    this.pending?.splits.push(split);
+  }
+
+  commit(reader: HistoryReader, nextRegionId: number) {
+    const pending = this.pending;
+    if (!pending) return;
+    this.pending = undefined;
+
+    const changes: CellChange[] = [];
+
+    pending.before.forEach(({ coord, state: before }) => {
+      const current = reader.readCell(coord);
+      const after = current && { ...current };
+
+      if (
+        before?.fillStyle === after?.fillStyle &&
+        before?.regionId === after?.regionId
+      ) {
+        return;
+      }
+
+      changes.push({ coord, before, after });
+    });
+
+    const regionChanges: RegionChange[] = [];
+
+    pending.regionsBefore.forEach((before, regionId) => {
+      const current = reader.readRegion(regionId);
+      const after = current && { ...current };
+
+      if (JSON.stringify(before) === JSON.stringify(after)) return;
+
+      regionChanges.push({ regionId, before, after });
+    });
+
+    const parentChanges: RegionParentChange[] = [];
+
+    pending.parentsBefore.forEach((before, label) => {
+      const after = reader.readRegionParent(label);
+      if (before !== after) parentChanges.push({ label, before, after });
+    });
+
+    if (!changes.length && !regionChanges.length && !parentChanges.length) {
+      return;
+    }
+
+    const transaction: Transaction = {
+      floorId: pending.floorId,
+      layerId: pending.layerId,
+      changes,
+      regionChanges,
+      parentChanges,
+      createdRegionIds: pending.createdRegionIds,
+      merges: pending.merges,
+      splits: pending.splits,
+      nextRegionIdBefore: pending.nextRegionId,
+      nextRegionIdAfter: nextRegionId,
+    };
+    this.undoStack.push(transaction);
+    if (this.undoStack.length > this.limit) {
+      this.undoStack.shift();
+    }
+    this.redoStack = [];
+    return transaction;
+  }
+
+  /**
+   * Folds a metadata edit into the newest step when that step only changed
+   * the same field of the same region, so typing a name is one undo step
+   * rather than one per keystroke. Returns false when it has to be a step
+   * of its own.
+   */
+  amendRegionMeta(regionId: number, meta: RegionMeta) {
+    if (this.pending || this.redoStack.length) return false;
+
+    const last = this.undoStack[this.undoStack.length - 1];
+    if (
+      !last ||
+      last.changes.length ||
+      last.parentChanges.length ||
+      last.regionChanges.length !== 1
+    ) {
+      return false;
+    }
+
+    const [change] = last.regionChanges;
+    if (change.regionId !== regionId || !change.after) return false;
+
+    const field = getChangedField(change.before, change.after);
+    if (!field || getChangedField(change.after, meta) !== field) return false;
+
+    change.after = { ...meta };
+    return true;
+  }
+
+  // drops what was recorded since begin, for changes that aren't undoable
+  abort() {
+    const pending = this.pending;
+    this.pending = undefined;
+    return pending;
+  }
+
+  // puts back the states recorded since begin, leaving both stacks as they were
+  rollback(writer: HistoryWriter) {
+    const pending = this.abort();
+    if (!pending) return;
+
+    pending.parentsBefore.forEach((parent, label) =>
+      writer.writeRegionParent(label, parent)
+    );
+    pending.before.forEach(({ coord, state }) =>
+      writer.writeCell(coord, state)
+    );
+    pending.regionsBefore.forEach((meta, regionId) =>
+      writer.writeRegion(regionId, meta)
+    );
+  }
+
+  /**
+   * Forgets the steps an edit that isn't undoable (a remote one) built on.
+   * Undoing a step that touched the same cells, their neighbors or the same
+   * regions would put back stale states over it, so the undo stack is cut
+   * below the newest such step and redo is dropped if any step there does.
+   */
+  dropOverlapping(edit: PendingTransaction) {
+    const cellKeys = new Set<string>();
+    edit.before.forEach(({ coord: { row, col } }) => {
+      cellKeys.add(`${row}.${col}`);
+      cellKeys.add(`${row - 1}.${col}`);
+      cellKeys.add(`${row + 1}.${col}`);
+      cellKeys.add(`${row}.${col - 1}`);
+      cellKeys.add(`${row}.${col + 1}`);
+    });
+
+    const overlaps = (transaction: Transaction) =>
+      transaction.floorId === edit.floorId &&
+      transaction.layerId === edit.layerId &&
+      (transaction.changes.some(({ coord }) =>
+        cellKeys.has(`${coord.row}.${coord.col}`)
+      ) ||
+        transaction.regionChanges.some(({ regionId }) =>
+          edit.regionsBefore.has(regionId)
+        ) ||
+        transaction.parentChanges.some(({ label }) =>
+          edit.parentsBefore.has(label)
+        ));
+
+    for (let i = this.undoStack.length - 1; i >= 0; i--) {
+      if (!overlaps(this.undoStack[i])) continue;
+
+      this.undoStack = this.undoStack.slice(i + 1);
+      break;
+    }
+    if (this.redoStack.some(overlaps)) this.redoStack = [];
+  }
+
+  undo() {
+    if (!this.canUndo) return;
+
+    const transaction = this.undoStack.pop();
+    if (transaction) this.redoStack.push(transaction);
+    return transaction;
+  }
+
+  redo() {
+    if (!this.canRedo) return;
+
+    const transaction = this.redoStack.pop();
+    if (transaction) this.undoStack.push(transaction);
+    return transaction;
+  }
+
+  // keeps recorded cell states in step with a palette recolor
+  renameFill(from: string, to: string) {
+    const rename = (state: CellState) =>
+      state?.fillStyle === from ? { ...state, fillStyle: to } : state;
+
+    for (const transaction of [...this.undoStack, ...this.redoStack]) {
+      for (const change of transaction.changes) {
+        change.before = rename(change.before);
+        change.after = rename(change.after);
+      }
+    }
+
+    this.pending?.before.forEach((entry) => {
+      entry.state = rename(entry.state);
+    });
+  }
+
+  // floors are independent grids, so the others' edits stay undoable
+  discardFloor(floorId: string) {
+    this.undoStack = this.undoStack.filter(
+      (transaction) => transaction.floorId !== floorId
+    );
+    this.redoStack = this.redoStack.filter(
+      (transaction) => transaction.floorId !== floorId
+    );
+  }
+
+  clear() {
+    this.undoStack = [];
+    this.redoStack = [];
+    this.pending = undefined;
+  }
+}
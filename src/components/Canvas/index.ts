@@ -1 +1,5 @@
 export * from "./Canvas";
+export { parseMapFile } from "./mapFile";
+export type { StoreMapFile } from "./mapFile";
+export type { CanvasEvents } from "./events";
+export type { CellChange, RegionMerge, RegionSplit } from "./history";
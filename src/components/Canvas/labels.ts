@@ -0,0 +1,141 @@
+import { coordKey } from "./selection";
+import { GridCellCoord } from "./types";
+
+// text smaller than this on screen is hidden rather than drawn illegibly
+export const MIN_LABEL_PX = 8;
+// region labels don't grow past this many cells tall, however big the region
+export const MAX_REGION_LABEL_CELLS = 2;
+
+export const annotationIcons = ["exit", "restroom", "extinguisher"] as const;
+
+export type AnnotationIcon = (typeof annotationIcons)[number];
+
+export const isAnnotationIcon = (value: unknown): value is AnnotationIcon =>
+  annotationIcons.includes(value as AnnotationIcon);
+
+export const annotationIconLabels: Record<AnnotationIcon, string> = {
+  exit: "Exit",
+  restroom: "Restroom",
+  extinguisher: "Fire extinguisher",
+};
+
+// drawn in front of the annotation's text
+export const annotationIconGlyphs: Record<AnnotationIcon, string> = {
+  exit: "🚪",
+  restroom: "🚻",
+  extinguisher: "🧯",
+};
+
+/**
+ * Free-placed text on one floor. `x` & `y` are the world position of the
+ * text's center and `size` is its height in cells, so it zooms with the map.
+ */
+export type Annotation = {
+  id: string;
+  floorId: string;
+  x: number;
+  y: number;
+  text: string;
+  icon?: AnnotationIcon;
+  size: number;
+};
+
+export const createAnnotationId = (annotations: Annotation[]) => {
+  let n = annotations.length + 1;
+  while (annotations.some(({ id }) => id === `label-${n}`)) n++;
+
+  return `label-${n}`;
+};
+
+export const getAnnotationText = ({ text, icon }: Annotation) =>
+  icon ? `${annotationIconGlyphs[icon]} ${text}`.trim() : text;
+
+// the room a region label has around `center`, in cells
+export type LabelSpot = GridCellCoord & { width: number; height: number };
+
+const squareSteps = [-1, 0, 1].flatMap((row) =>
+  [-1, 0, 1].map((col) => ({ row, col }))
+);
+
+/**
+ * The middle of the largest square that fits in the cells, found with a
+ * distance transform: cells on the outline are 1 away from the outside,
+ * their inner neighbors 2 and so on. Of the deepest cells, the one nearest
+ * the centroid wins, and the label may be as wide as the row around it.
+ */
+export const findLabelSpot = (cells: GridCellCoord[]): LabelSpot => {
+  const keys = new Set(cells.map(coordKey));
+  const depths = new Map<string, number>();
+  let queue: GridCellCoord[] = [];
+
+  for (const cell of cells) {
+    const isOutline = squareSteps.some(
+      (step) =>
+        !keys.has(
+          coordKey({ row: cell.row + step.row, col: cell.col + step.col })
+        )
+    );
+    if (isOutline) {
+      depths.set(coordKey(cell), 1);
+      queue.push(cell);
+    }
+  }
+
+  for (let depth = 2; queue.length; depth++) {
+    const next: GridCellCoord[] = [];
+
+    for (const cell of queue) {
+      for (const step of squareSteps) {
+        const neighbor = { row: cell.row + step.row, col: cell.col + step.col };
+        const key = coordKey(neighbor);
+        if (!keys.has(key) || depths.has(key)) continue;
+
+        depths.set(key, depth);
+        next.push(neighbor);
+      }
+    }
+
+    queue = next;
+  }
+
+  const centroid = {
+    row: cells.reduce((sum, { row }) => sum + row, 0) / cells.length,
+    col: cells.reduce((sum, { col }) => sum + col, 0) / cells.length,
+  };
+  const distanceToCentroid = ({ row, col }: GridCellCoord) =>
+    (row - centroid.row) ** 2 + (col - centroid.col) ** 2;
+
+  let best = cells[0];
+  let bestDepth = 0;
+  for (const cell of cells) {
+    const depth = depths.get(coordKey(cell)) ?? 0;
+    if (
+      depth > bestDepth ||
+      (depth === bestDepth &&
+        distanceToCentroid(cell) < distanceToCentroid(best))
+    ) {
+      best = cell;
+      bestDepth = depth;
+    }
+  }
+
+  // text is centered, so it gets the shorter side of the row twice
+  const runLength = (colStep: number) => {
+    let length = 0;
+    while (
+      keys.has(
+        coordKey({ row: best.row, col: best.col + (length + 1) * colStep })
+      )
+    ) {
+      length++;
+    }
+    return length;
+  };
+
+  return {
+    row: best.row,
+    col: best.col,
+    width: Math.min(runLength(-1), runLength(1)) * 2 + 1,
+    height: bestDepth * 2 - 1,
+  };
+};
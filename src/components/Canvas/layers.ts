@@ -0,0 +1,68 @@
+import { ChunkedGrid } from "./grid";
+import { RegionIndex } from "./regionIndex";
+import { RegionMeta } from "./regions";
+import { ChunkCache } from "./renderCache";
+import { GridCell } from "./types";
+
+export type LayerSettings = {
+  id: string;
+  name: string;
+  visible: boolean;
+  locked: boolean;
+  opacity: number;
+};
+
+// bottom to top; new maps start with these
+export const defaultLayers: Array<{ id: string; name: string }> = [
+  { id: "floor", name: "Floor & walls" },
+  { id: "fixtures", name: "Fixtures" },
+  { id: "departments", name: "Departments" },
+  { id: "annotations", name: "Annotations" },
+];
+
+/**
+ * One stacked sheet of cells. Each layer has its own cell store, region ids
+ * and render cache, so painting a fixture never touches the floor under it.
+ */
+export class MapLayer {
+  visible = true;
+  locked = false;
+  opacity = 1;
+  nextRegionId = 0;
+  cellData = new ChunkedGrid();
+  regionIndex = new RegionIndex();
+  regionMeta = new Map<number, RegionMeta>();
+  cache = new ChunkCache();
+  regionCells = new Map<number, GridCell[]>();
+
+  constructor(
+    readonly id: string,
+    public name: string
+  ) {}
+
+  get settings(): LayerSettings {
+    const { id, name, visible, locked, opacity } = this;
+    return { id, name, visible, locked, opacity };
+  }
+
+  // a hidden layer can't be seen, so it can't be edited either
+  get isEditable() {
+    return this.visible && !this.locked;
+  }
+
+  getRegionId(cell: GridCell) {
+    return this.regionIndex.find(cell.regionId);
+  }
+
+  clear() {
+    this.nextRegionId = 0;
+    this.cellData.clear();
+    this.regionIndex.clear();
+    this.regionMeta.clear();
+    this.cache.clear();
+    this.regionCells.clear();
+  }
+}
+
+export const createDefaultLayers = () =>
+  defaultLayers.map(({ id, name }) => new MapLayer(id, name));
@@ -0,0 +1,509 @@
+import {
+  Connector,
+  FloorSettings,
+  defaultFloor,
+  isConnectorKind,
+} from "./floors";
+import { Annotation, isAnnotationIcon } from "./labels";
+import { LayerSettings, defaultLayers } from "./layers";
+import { PaletteEntry, defaultPalette } from "./palette";
+import { Product } from "./products";
+import { RegionMeta, isRegionCategory } from "./regions";
+import { GridCell } from "./types";
+import { MapScale, Underlay, isLengthUnit } from "./underlay";
+import { ViewBookmark, ViewComponents, viewComponents } from "./view";
+
+/**
+ * Store map file format, version 9.
+ *
+ * {
+ *   format: "store-mapper",
+ *   version: 9,
+ *   grid: {
+ *     cellSize,
+ *     scale?: { cellLength, unit: "ft" | "m" }   // real length of a cell, once calibrated
+ *   },
+ *   view: [a, b, c, d, e, f],        // DOMMatrix components of the view transform
+ *   colors: string[],                // every fillStyle used by a cell, on any floor
+ *   floors: {                        // bottom to top
+ *     id, name,
+ *     underlay?: { src, x, y, rotation, scale, opacity },   // floor plan image
+ *     layers: {                      // bottom to top
+ *       id, name, visible, locked, opacity,
+ *       nextRegionId: number,
+ *       cells: [row, col, colorIndex, regionId][],
+ *       regions: { id, name, category?, notes }[]   // region metadata
+ *     }[]
+ *   }[],
+ *   connectors: {
+ *     id, kind: "stairs" | "elevator" | "escalator",
+ *     ends: { floorId, row, col }[]
+ *   }[],
+ *   products: {
+ *     sku, name, department,
+ *     location?: { floorId, layerId, regionId }
+ *       | { floorId, layerId, cells: { row, col }[] }
+ *   }[],
+ *   palette: { id, name, color, category? }[],
+ *   bookmarks: { id, name, floorId, view: [a, b, c, d, e, f] }[],
+ *   annotations: {
+ *     id, floorId, x, y, text, size,
+ *     icon?: "exit" | "restroom" | "extinguisher"
+ *   }[]
+ * }
+ *
+ * Only the minimal cell state is stored. Neighbor links and adjacency masks
+ * are derived and get rebuilt when a file is loaded.
+ *
+ * When the format changes, bump MAP_FILE_VERSION, describe the new shape
+ * here and register a migration from the previous version in `migrations`.
+ */
+export const MAP_FILE_FORMAT = "store-mapper";
+export const MAP_FILE_VERSION = 9;
+
+export type SerializedCell = [
+  row: number,
+  col: number,
+  colorIndex: number,
+  regionId: number,
+];
+
+export type SerializedRegion = RegionMeta & { id: number };
+
+export type SerializedLayer = LayerSettings & {
+  nextRegionId: number;
+  cells: SerializedCell[];
+  regions: SerializedRegion[];
+};
+
+export type SerializedFloor = FloorSettings & {
+  underlay?: Underlay;
+  layers: SerializedLayer[];
+};
+
+export type StoreMapFile = {
+  format: typeof MAP_FILE_FORMAT;
+  version: typeof MAP_FILE_VERSION;
+  grid: { cellSize: number; scale?: MapScale };
+  view: ViewComponents;
+  colors: string[];
+  floors: SerializedFloor[];
+  connectors: Connector[];
+  products: Product[];
+  palette: PaletteEntry[];
+  bookmarks: ViewBookmark[];
+  annotations: Annotation[];
+};
+
+export type LayerSnapshot = LayerSettings & {
+  cells: GridCell[];
+  nextRegionId: number;
+  regionMeta: Map<number, RegionMeta>;
+  getRegionId: (cell: GridCell) => number;
+};
+
+export type FloorSnapshot = FloorSettings & {
+  underlay?: Underlay;
+  layers: LayerSnapshot[];
+};
+
+export type MapSnapshot = {
+  cellSize: number;
+  scale?: MapScale;
+  transform: DOMMatrix;
+  floors: FloorSnapshot[];
+  connectors: Connector[];
+  products: Product[];
+  palette: PaletteEntry[];
+  bookmarks: ViewBookmark[];
+  annotations: Annotation[];
+};
+
+type UnknownMapFile = { format: string; version: number } & Record<
+  string,
+  unknown
+>;
+
+// keyed by the version a migration upgrades *from*
+const migrations: Record<number, (file: UnknownMapFile) => UnknownMapFile> = {
+  // v2 added region metadata
+  1: (file) => ({ ...file, version: 2, regions: [] }),
+  // v3 dropped the fixed grid size; cells are no longer shifted by an offset
+  2: (file) => {
+    const grid = file.grid as { offset: number; cellSize: number };
+    const cells = file.cells as SerializedCell[];
+
+    return {
+      ...file,
+      version: 3,
+      grid: { cellSize: grid.cellSize },
+      cells: cells.map(([row, col, colorIndex, regionId]) => [
+        row - grid.offset,
+        col - grid.offset,
+        colorIndex,
+        regionId,
+      ]),
+    };
+  },
+  // v4 split the map into layers; everything so far becomes the floor
+  3: ({ nextRegionId, cells, regions, ...file }) => ({
+    ...file,
+    version: 4,
+    layers: defaultLayers.map(({ id, name }, i) => ({
+      id,
+      name,
+      visible: true,
+      locked: false,
+      opacity: 1,
+      nextRegionId: i === 0 ? nextRegionId : 0,
+      cells: i === 0 ? cells : [],
+      regions: i === 0 ? regions : [],
+    })),
+  }),
+  // v5 added product placements
+  4: (file) => ({ ...file, version: 5, products: [] }),
+  // v6 stored the palette; colors the defaults don't cover get an entry each
+  5: (file) => {
+    const palette = defaultPalette();
+
+    for (const color of file.colors as string[]) {
+      if (palette.some((entry) => entry.color === color)) continue;
+      palette.push({ id: color, name: color, color });
+    }
+
+    return { ...file, version: 6, palette };
+  },
+  // v7 put the layers on floors; the map so far is the ground floor
+  6: ({ layers, products, ...file }) => ({
+    ...file,
+    version: 7,
+    floors: [{ ...defaultFloor, layers }],
+    connectors: [],
+    products: (products as Product[]).map((product) =>
+      product.location
+        ? {
+            ...product,
+            location: { ...product.location, floorId: defaultFloor.id },
+          }
+        : product
+    ),
+  }),
+  // v8 added view bookmarks, a calibrated scale and floor plan underlays,
+  // the latter two optional
+  7: (file) => ({ ...file, version: 8, bookmarks: [] }),
+  // v9 added text annotations
+  8: (file) => ({ ...file, version: 9, annotations: [] }),
+};
+
+export const serializeMap = (snapshot: MapSnapshot): StoreMapFile => {
+  const colors: string[] = [];
+  const colorIndexes = new Map<string, number>();
+
+  const serializeLayer = ({
+    cells,
+    regionMeta,
+    getRegionId,
+    ...layer
+  }: LayerSnapshot): SerializedLayer => ({
+    ...layer,
+    cells: cells.map((cell): SerializedCell => {
+      let colorIndex = colorIndexes.get(cell.fillStyle);
+      if (colorIndex === undefined) {
+        colorIndex = colors.push(cell.fillStyle) - 1;
+        colorIndexes.set(cell.fillStyle, colorIndex);
+      }
+
+      return [cell.row, cell.col, colorIndex, getRegionId(cell)];
+    }),
+    regions: [...regionMeta].map(([id, meta]) => ({ id, ...meta })),
+  });
+
+  const floors = snapshot.floors.map(
+    ({ layers, ...floor }): SerializedFloor => ({
+      ...floor,
+      layers: layers.map(serializeLayer),
+    })
+  );
+
+  return {
+    format: MAP_FILE_FORMAT,
+    version: MAP_FILE_VERSION,
+    grid: { cellSize: snapshot.cellSize, scale: snapshot.scale },
+    view: viewComponents(snapshot.transform),
+    colors,
+    floors,
+    connectors: snapshot.connectors,
+    products: snapshot.products,
+    palette: snapshot.palette,
+    bookmarks: snapshot.bookmarks,
+    annotations: snapshot.annotations,
+  };
+};
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+const isNumberArray = (value: unknown, length?: number) =>
+  Array.isArray(value) &&
+  (length === undefined || value.length === length) &&
+  value.every((n) => typeof n === "number" && Number.isFinite(n));
+
+export const migrateMapFile = (raw: unknown): UnknownMapFile => {
+  if (!isRecord(raw) || raw.format !== MAP_FILE_FORMAT) {
+    throw new Error("Not a store map file");
+  }
+  if (typeof raw.version !== "number" || !Number.isInteger(raw.version)) {
+    throw new Error("Store map file has no version");
+  }
+  if (raw.version > MAP_FILE_VERSION) {
+    throw new Error(
+      `Store map file version ${raw.version} is newer than supported version ${MAP_FILE_VERSION}`
+    );
+  }
+
+  let file = raw as UnknownMapFile;
+
+  while (file.version < MAP_FILE_VERSION) {
+    const migrate = migrations[file.version];
+    if (!migrate) {
+      throw new Error(`No migration from store map version ${file.version}`);
+    }
+    file = migrate(file);
+  }
+
+  return file;
+};
+
+const isLayerSettings = (layer: Record<string, unknown>) =>
+  typeof layer.id === "string" &&
+  typeof layer.name === "string" &&
+  typeof layer.visible === "boolean" &&
+  typeof layer.locked === "boolean" &&
+  typeof layer.opacity === "number" &&
+  layer.opacity >= 0 &&
+  layer.opacity <= 1;
+
+// [row, col, colorIndex, regionId], the color an index into `colors`
+const isCell = (cell: unknown, colorCount: number) => {
+  if (!isNumberArray(cell, 4)) return false;
+
+  const colorIndex = (cell as number[])[2];
+  return (
+    Number.isInteger(colorIndex) && colorIndex >= 0 && colorIndex < colorCount
+  );
+};
+
+const validateLayer = (layer: unknown, colorCount: number) => {
+  if (!isRecord(layer) || !isLayerSettings(layer)) {
+    throw new Error("Store map file has an invalid layer");
+  }
+
+  const { id, nextRegionId, cells, regions } = layer;
+
+  if (typeof nextRegionId !== "number") {
+    throw new Error(`Layer "${id}" has an invalid nextRegionId`);
+  }
+  if (
+    !Array.isArray(cells) ||
+    !cells.every((cell) => isCell(cell, colorCount))
+  ) {
+    throw new Error(`Layer "${id}" has invalid cells`);
+  }
+  if (
+    !Array.isArray(regions) ||
+    !regions.every(
+      (region) =>
+        isRecord(region) &&
+        typeof region.id === "number" &&
+        typeof region.name === "string" &&
+        typeof region.notes === "string" &&
+        (region.category === undefined || isRegionCategory(region.category))
+    )
+  ) {
+    throw new Error(`Layer "${id}" has invalid regions`);
+  }
+};
+
+const isMapScale = (scale: unknown) =>
+  isRecord(scale) &&
+  isNumberArray([scale.cellLength]) &&
+  (scale.cellLength as number) > 0 &&
+  isLengthUnit(scale.unit);
+
+const isUnderlay = (underlay: unknown) =>
+  isRecord(underlay) &&
+  typeof underlay.src === "string" &&
+  isNumberArray([underlay.x, underlay.y, underlay.rotation, underlay.scale]) &&
+  typeof underlay.opacity === "number" &&
+  underlay.opacity >= 0 &&
+  underlay.opacity <= 1;
+
+const validateFloor = (floor: unknown, colorCount: number) => {
+  if (
+    !isRecord(floor) ||
+    typeof floor.id !== "string" ||
+    typeof floor.name !== "string"
+  ) {
+    throw new Error("Store map file has an invalid floor");
+  }
+
+  const { id, layers, underlay } = floor;
+
+  if (underlay !== undefined && !isUnderlay(underlay)) {
+    throw new Error(`Floor "${id}" has an invalid underlay`);
+  }
+
+  if (!Array.isArray(layers) || !layers.length) {
+    throw new Error(`Floor "${id}" has no layers`);
+  }
+
+  layers.forEach((layer) => validateLayer(layer, colorCount));
+
+  const layerIds = new Set(layers.map((layer) => (layer as { id: string }).id));
+  if (layerIds.size !== layers.length) {
+    throw new Error(`Floor "${id}" has duplicate layer ids`);
+  }
+};
+
+const isCellCoord = (coord: unknown) =>
+  isRecord(coord) && isNumberArray([coord.row, coord.col]);
+
+const isConnector = (connector: unknown, floorIds: Set<string>) =>
+  isRecord(connector) &&
+  typeof connector.id === "string" &&
+  isConnectorKind(connector.kind) &&
+  Array.isArray(connector.ends) &&
+  connector.ends.every(
+    (end) =>
+      isCellCoord(end) &&
+      floorIds.has((end as { floorId: unknown }).floorId as string)
+  );
+
+const isProduct = (
+  product: unknown,
+  layerIdsByFloor: Map<string, Set<string>>
+) => {
+  if (!isRecord(product)) return false;
+
+  const { sku, name, department, location } = product;
+  if (
+    typeof sku !== "string" ||
+    typeof name !== "string" ||
+    typeof department !== "string"
+  ) {
+    return false;
+  }
+  if (location === undefined) return true;
+
+  return (
+    isRecord(location) &&
+    typeof location.floorId === "string" &&
+    typeof location.layerId === "string" &&
+    !!layerIdsByFloor.get(location.floorId)?.has(location.layerId) &&
+    (typeof location.regionId === "number" ||
+      (Array.isArray(location.cells) && location.cells.every(isCellCoord)))
+  );
+};
+
+const isPaletteEntry = (entry: unknown) =>
+  isRecord(entry) &&
+  typeof entry.id === "string" &&
+  typeof entry.name === "string" &&
+  typeof entry.color === "string" &&
+  (entry.category === undefined || isRegionCategory(entry.category));
+
+const isBookmark = (bookmark: unknown, floorIds: Set<string>) =>
+  isRecord(bookmark) &&
+  typeof bookmark.id === "string" &&
+  typeof bookmark.name === "string" &&
+  floorIds.has(bookmark.floorId as string) &&
+  isNumberArray(bookmark.view, 6);
+
+const isAnnotation = (annotation: unknown, floorIds: Set<string>) =>
+  isRecord(annotation) &&
+  typeof annotation.id === "string" &&
+  floorIds.has(annotation.floorId as string) &&
+  isNumberArray([annotation.x, annotation.y]) &&
+  typeof annotation.text === "string" &&
+  typeof annotation.size === "number" &&
+  annotation.size > 0 &&
+  (annotation.icon === undefined || isAnnotationIcon(annotation.icon));
+
+export const parseMapFile = (raw: unknown): StoreMapFile => {
+  const file = migrateMapFile(raw);
+  const {
+    grid,
+    view,
+    colors,
+    floors,
+    connectors,
+    products,
+    palette,
+    bookmarks,
+    annotations,
+  } = file;
+
+  if (
+    !isRecord(grid) ||
+    !isNumberArray([grid.cellSize]) ||
+    (grid.cellSize as number) <= 0 ||
+    (grid.scale !== undefined && !isMapScale(grid.scale))
+  ) {
+    throw new Error("Store map file has an invalid grid");
+  }
+  if (!isNumberArray(view, 6)) {
+    throw new Error("Store map file has an invalid view transform");
+  }
+  if (
+    !Array.isArray(colors) ||
+    !colors.every((color) => typeof color === "string")
+  ) {
+    throw new Error("Store map file has invalid colors");
+  }
+  if (!Array.isArray(floors) || !floors.length) {
+    throw new Error("Store map file has no floors");
+  }
+
+  floors.forEach((floor) => validateFloor(floor, colors.length));
+
+  const floorIds = new Set(floors.map((floor) => (floor as { id: string }).id));
+  if (floorIds.size !== floors.length) {
+    throw new Error("Store map file has duplicate floor ids");
+  }
+  if (
+    !Array.isArray(connectors) ||
+    !connectors.every((connector) => isConnector(connector, floorIds))
+  ) {
+    throw new Error("Store map file has invalid connectors");
+  }
+  // products must sit on a layer of their own floor
+  const layerIdsByFloor = new Map(
+    floors.map(({ id, layers }) => [
+      id as string,
+      new Set((layers as { id: string }[]).map((layer) => layer.id)),
+    ])
+  );
+  if (
+    !Array.isArray(products) ||
+    !products.every((product) => isProduct(product, layerIdsByFloor))
+  ) {
+    throw new Error("Store map file has invalid products");
+  }
+  if (!Array.isArray(palette) || !palette.every(isPaletteEntry)) {
+    throw new Error("Store map file has an invalid palette");
+  }
+  if (
+    !Array.isArray(bookmarks) ||
+    !bookmarks.every((bookmark) => isBookmark(bookmark, floorIds))
+  ) {
+    throw new Error("Store map file has invalid bookmarks");
+  }
+  if (
+    !Array.isArray(annotations) ||
+    !annotations.every((annotation) => isAnnotation(annotation, floorIds))
+  ) {
+    throw new Error("Store map file has invalid annotations");
+  }
+
+  return file as StoreMapFile;
+};
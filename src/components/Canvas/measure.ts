@@ -0,0 +1,63 @@
+import { pointDistance } from "./gestures";
+import { GridCellCoord, XYCoord } from "./types";
+import { LengthUnit, MapScale } from "./underlay";
+
+// measured points snap to the middle of a cell or to the corners between them
+export type MeasureSnap = "center" | "edge";
+
+/**
+ * A ruler between two snapped world points. The walking route runs between
+ * the cells under the two ends, along the same rules as the route tool.
+ */
+export type Measurement = {
+  from: XYCoord;
+  to: XYCoord;
+  fromCell: GridCellCoord;
+  toCell: GridCellCoord;
+  path?: GridCellCoord[];
+};
+
+// all in cells; no walking distance means there's no way through
+export type MeasureDistances = {
+  straight: number;
+  manhattan: number;
+  walking?: number;
+};
+
+export const getMeasureDistances = (
+  { from, to, path }: Measurement,
+  cellSize: number
+): MeasureDistances => ({
+  straight: pointDistance(from, to) / cellSize,
+  manhattan: (Math.abs(to.x - from.x) + Math.abs(to.y - from.y)) / cellSize,
+  // a path of n cells is n - 1 steps long
+  walking: path && path.length - 1,
+});
+
+const METERS_PER_FOOT = 0.3048;
+
+export const convertLength = (
+  length: number,
+  from: LengthUnit,
+  to: LengthUnit
+) => {
+  if (from === to) return length;
+  return from === "ft" ? length * METERS_PER_FOOT : length / METERS_PER_FOOT;
+};
+
+// in cells, and in `unit` too once the map has a scale
+export const formatLength = (
+  cells: number,
+  mapScale: MapScale | undefined,
+  unit: LengthUnit
+) => {
+  const inCells = `${Number(cells.toFixed(1))} cells`;
+  if (!mapScale) return inCells;
+
+  const length = convertLength(
+    cells * mapScale.cellLength,
+    mapScale.unit,
+    unit
+  );
+  return `${inCells} · ${Number(length.toFixed(2))} ${unit}`;
+};
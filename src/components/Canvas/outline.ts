@@ -0,0 +1,130 @@
+import { CardinalBit, GridCell, XYCoord } from "./types";
+
+// a closed ring of grid vertices, in cell units (x = col, y = row)
+export type OutlineRing = XYCoord[];
+
+type Edge = { from: XYCoord; to: XYCoord };
+
+const vertexKey = (v: XYCoord) => `${v.x}.${v.y}`;
+
+/**
+ * Boundary edges of a set of same-region cells, read from their adjacency
+ * masks. Edges run clockwise around filled area (y grows downward), so outer
+ * rings come out clockwise and holes counter-clockwise.
+ */
+export const getBoundaryEdges = (cells: GridCell[]) => {
+  const edges: Edge[] = [];
+
+  for (const { row: y, col: x, adjacency } of cells) {
+    if (!(adjacency & CardinalBit.North)) {
+      edges.push({ from: { x, y }, to: { x: x + 1, y } });
+    }
+    if (!(adjacency & CardinalBit.East)) {
+      edges.push({ from: { x: x + 1, y }, to: { x: x + 1, y: y + 1 } });
+    }
+    if (!(adjacency & CardinalBit.South)) {
+      edges.push({ from: { x: x + 1, y: y + 1 }, to: { x, y: y + 1 } });
+    }
+    if (!(adjacency & CardinalBit.West)) {
+      edges.push({ from: { x, y: y + 1 }, to: { x, y } });
+    }
+  }
+
+  return edges;
+};
+
+const isCollinear = (a: XYCoord, b: XYCoord, c: XYCoord) =>
+  (b.x - a.x) * (c.y - b.y) === (b.y - a.y) * (c.x - b.x);
+
+// drop the intermediate vertices of straight runs
+const simplifyRing = (ring: OutlineRing) =>
+  ring.filter(
+    (point, i) =>
+      !isCollinear(
+        ring[(i - 1 + ring.length) % ring.length],
+        point,
+        ring[(i + 1) % ring.length]
+      )
+  );
+
+/**
+ * Chains boundary edges into closed rings. Where two diagonal cells touch at
+ * a corner the vertex has two outgoing edges; taking the rightmost turn keeps
+ * the touching cells in separate rings.
+ */
+export const traceOutline = (cells: GridCell[]): OutlineRing[] => {
+  const outgoing = new Map<string, Edge[]>();
+
+  for (const edge of getBoundaryEdges(cells)) {
+    const key = vertexKey(edge.from);
+    const list = outgoing.get(key);
+    if (list) list.push(edge);
+    else outgoing.set(key, [edge]);
+  }
+
+  const takeNext = (prev: Edge | undefined, at: XYCoord) => {
+    const list = outgoing.get(vertexKey(at));
+    if (!list?.length) return;
+
+    let index = 0;
+    if (prev && list.length > 1) {
+      const dx = prev.to.x - prev.from.x;
+      const dy = prev.to.y - prev.from.y;
+      // right turn of (dx, dy) with y down is (-dy, dx)
+      const right = list.findIndex(
+        (e) => e.to.x - e.from.x === -dy && e.to.y - e.from.y === dx
+      );
+      index = Math.max(right, 0);
+    }
+
+    const [edge] = list.splice(index, 1);
+    if (!list.length) outgoing.delete(vertexKey(at));
+    return edge;
+  };
+
+  const rings: OutlineRing[] = [];
+
+  while (outgoing.size) {
+    const [startKey] = outgoing.keys();
+    const start = outgoing.get(startKey)![0].from;
+    const ring: OutlineRing = [];
+
+    let edge = takeNext(undefined, start);
+    while (edge) {
+      ring.push(edge.from);
+      if (vertexKey(edge.to) === vertexKey(start)) break;
+      edge = takeNext(edge, edge.to);
+    }
+
+    rings.push(simplifyRing(ring));
+  }
+
+  return rings;
+};
+
+// signed area in cell units; positive for clockwise rings (y down)
+export const ringArea = (ring: OutlineRing) => {
+  let area = 0;
+  for (let i = 0; i < ring.length; i++) {
+    const a = ring[i];
+    const b = ring[(i + 1) % ring.length];
+    area += a.x * b.y - b.x * a.y;
+  }
+  return area / 2;
+};
+
+export const groupCellsByRegion = (
+  cells: GridCell[],
+  getRegionId = (cell: GridCell) => cell.regionId
+) => {
+  const regions = new Map<number, GridCell[]>();
+
+  for (const cell of cells) {
+    const regionId = getRegionId(cell);
+    const list = regions.get(regionId);
+    if (list) list.push(cell);
+    else regions.set(regionId, [cell]);
+  }
+
+  return regions;
+};
@@ -0,0 +1,31 @@
+import { RegionCategory } from "./regions";
+
+/**
+ * A named paint. Cells store the color string itself, so an entry's id stays
+ * put while its color or name changes; `category` gives every region painted
+ * with it a meaning, e.g. for the legend and route planning.
+ */
+export type PaletteEntry = {
+  id: string;
+  name: string;
+  color: string;
+  category?: RegionCategory;
+};
+
+export const defaultPalette = (): PaletteEntry[] => [
+  { id: "red", name: "Red", color: "indianred" },
+  { id: "blue", name: "Blue", color: "#4b76ff" },
+];
+
+export const createPaletteEntry = (
+  palette: PaletteEntry[],
+  color: string
+): PaletteEntry => {
+  let n = palette.length + 1;
+  while (palette.some(({ id }) => id === `swatch-${n}`)) n++;
+
+  return { id: `swatch-${n}`, name: `Swatch ${n}`, color };
+};
+
+export const findPaletteEntry = (palette: PaletteEntry[], color: string) =>
+  palette.find((entry) => entry.color === color);
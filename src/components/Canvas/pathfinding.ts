@@ -0,0 +1,216 @@
+import { RegionCategory } from "./regions";
+import { coordKey } from "./selection";
+import { GridCellCoord } from "./types";
+
+/**
+ * What blocks a route. A cell is walkable unless it is painted with a
+ * blocked color, or belongs to a region of a blocked category, on any
+ * visible layer. Unpainted cells are walkable only if `walkEmpty` is set.
+ */
+export type RouteRules = {
+  blockedFills: string[];
+  blockedCategories: RegionCategory[];
+  walkEmpty: boolean;
+};
+
+export const defaultRouteRules = (): RouteRules => ({
+  blockedFills: [],
+  blockedCategories: ["shelf", "storage", "checkout"],
+  walkEmpty: true,
+});
+
+export type CellBounds = {
+  minRow: number;
+  minCol: number;
+  maxRow: number;
+  maxCol: number;
+};
+
+// NESW, same order as getCellNeighbors
+export const neighborSteps: GridCellCoord[] = [
+  { row: -1, col: 0 },
+  { row: 0, col: 1 },
+  { row: 1, col: 0 },
+  { row: 0, col: -1 },
+];
+
+type OpenNode = { coord: GridCellCoord; key: string; f: number; g: number };
+
+// min-heap on f, ties broken toward the goal (higher g)
+class OpenSet {
+  nodes: OpenNode[] = [];
+
+  get size() {
+    return this.nodes.length;
+  }
+
+  less(a: OpenNode, b: OpenNode) {
+    return a.f < b.f || (a.f === b.f && a.g > b.g);
+  }
+
+  push(node: OpenNode) {
+    const { nodes } = this;
+    nodes.push(node);
+
+    let i = nodes.length - 1;
+    while (i > 0) {
+      const parent = (i - 1) >> 1;
+      if (!this.less(nodes[i], nodes[parent])) break;
+      [nodes[i], nodes[parent]] = [nodes[parent], nodes[i]];
+      i = parent;
+    }
+  }
+
+  pop() {
+    const { nodes } = this;
+    const top = nodes[0];
+    const last = nodes.pop();
+    if (!nodes.length || !last) return top;
+
+    nodes[0] = last;
+    let i = 0;
+    for (;;) {
+      const left = i * 2 + 1;
+      const right = left + 1;
+      let smallest = i;
+
+      if (left < nodes.length && this.less(nodes[left], nodes[smallest])) {
+        smallest = left;
+      }
+      if (right < nodes.length && this.less(nodes[right], nodes[smallest])) {
+        smallest = right;
+      }
+      if (smallest === i) break;
+
+      [nodes[i], nodes[smallest]] = [nodes[smallest], nodes[i]];
+      i = smallest;
+    }
+
+    return top;
+  }
+}
+
+const manhattan = (a: GridCellCoord, b: GridCellCoord) =>
+  Math.abs(a.row - b.row) + Math.abs(a.col - b.col);
+
+const inBounds = ({ row, col }: GridCellCoord, bounds: CellBounds) =>
+  row >= bounds.minRow &&
+  row <= bounds.maxRow &&
+  col >= bounds.minCol &&
+  col <= bounds.maxCol;
+
+/**
+ * A* over the 4-connected grid. Returns the cells from start to goal, both
+ * included, or undefined when the goal can't be reached. The grid is
+ * unbounded, so the search is kept inside `bounds`.
+ */
+export const findPath = (
+  start: GridCellCoord,
+  goal: GridCellCoord,
+  isWalkable: (coord: GridCellCoord) => boolean,
+  bounds: CellBounds
+) => {
+  if (!isWalkable(start) || !isWalkable(goal)) return;
+  if (!inBounds(start, bounds) || !inBounds(goal, bounds)) return;
+
+  const goalKey = coordKey(goal);
+  const startKey = coordKey(start);
+  const cameFrom = new Map<string, GridCellCoord>();
+  const costs = new Map<string, number>([[startKey, 0]]);
+  const closed = new Set<string>();
+  const open = new OpenSet();
+
+  open.push({ coord: start, key: startKey, g: 0, f: manhattan(start, goal) });
+
+  while (open.size) {
+    const current = open.pop();
+    if (current.key === goalKey) break;
+    if (closed.has(current.key)) continue;
+    closed.add(current.key);
+
+    for (const step of neighborSteps) {
+      const next = {
+        row: current.coord.row + step.row,
+        col: current.coord.col + step.col,
+      };
+      const key = coordKey(next);
+
+      if (closed.has(key) || !inBounds(next, bounds) || !isWalkable(next)) {
+        continue;
+      }
+
+      const g = current.g + 1;
+      if (g >= (costs.get(key) ?? Infinity)) continue;
+
+      costs.set(key, g);
+      cameFrom.set(key, current.coord);
+      open.push({ coord: next, key, g, f: g + manhattan(next, goal) });
+    }
+  }
+
+  if (!costs.has(goalKey)) return;
+
+  const path = [goal];
+  let key = goalKey;
+  while (key !== startKey) {
+    const previous = cameFrom.get(key);
+    if (!previous) return;
+
+    path.push(previous);
+    key = coordKey(previous);
+  }
+
+  return path.reverse();
+};
+
+export type WalkMap = Map<
+  string,
+  { distance: number; previous?: GridCellCoord }
+>;
+
+// breadth-first walking distance from start to every reachable cell
+export const walkDistances = (
+  start: GridCellCoord,
+  isWalkable: (coord: GridCellCoord) => boolean,
+  bounds: CellBounds
+) => {
+  const walkMap: WalkMap = new Map();
+  if (!isWalkable(start) || !inBounds(start, bounds)) return walkMap;
+
+  walkMap.set(coordKey(start), { distance: 0 });
+  const queue = [start];
+
+  for (let i = 0; i < queue.length; i++) {
+    const current = queue[i];
+    const { distance } = walkMap.get(coordKey(current)) ?? { distance: 0 };
+
+    for (const step of neighborSteps) {
+      const next = { row: current.row + step.row, col: current.col + step.col };
+      const key = coordKey(next);
+
+      if (walkMap.has(key) || !inBounds(next, bounds) || !isWalkable(next)) {
+        continue;
+      }
+
+      walkMap.set(key, { distance: distance + 1, previous: current });
+      queue.push(next);
+    }
+  }
+
+  return walkMap;
+};
+
+// the cells from the walk's start to goal, both included
+export const walkPath = (walkMap: WalkMap, goal: GridCellCoord) => {
+  if (!walkMap.has(coordKey(goal))) return;
+
+  const path = [goal];
+  let previous = walkMap.get(coordKey(goal))?.previous;
+
+  while (previous) {
+    path.push(previous);
+    previous = walkMap.get(coordKey(previous))?.previous;
+  }
+
+  return path.reverse();
+};
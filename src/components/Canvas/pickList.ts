@@ -0,0 +1,167 @@
+import {
+  CellBounds,
+  WalkMap,
+  neighborSteps,
+  walkDistances,
+  walkPath,
+} from "./pathfinding";
+import { coordKey } from "./selection";
+import { GridCellCoord } from "./types";
+
+export type PickTarget = { label: string; cells: GridCellCoord[] };
+
+// where the picker stands to reach a target
+export type PickStop = { target: PickTarget; coord: GridCellCoord };
+
+export type PickRoute = {
+  stops: PickStop[];
+  path: GridCellCoord[];
+  distance: number;
+  unreachable: PickTarget[];
+};
+
+// shelves themselves usually aren't walkable, so the cells beside them count
+const getAccessCells = (
+  target: PickTarget,
+  isWalkable: (coord: GridCellCoord) => boolean
+) => {
+  const access = new Map<string, GridCellCoord>();
+
+  for (const cell of target.cells) {
+    for (const coord of [
+      cell,
+      ...neighborSteps.map((step) => ({
+        row: cell.row + step.row,
+        col: cell.col + step.col,
+      })),
+    ]) {
+      if (isWalkable(coord)) access.set(coordKey(coord), coord);
+    }
+  }
+
+  return [...access.values()];
+};
+
+const pathLength = (order: number[], distances: number[][]) =>
+  order.reduce(
+    (sum, stop, i) => (i === 0 ? 0 : sum + distances[order[i - 1]][stop]),
+    0
+  );
+
+/**
+ * Visiting order for an open path from stop 0 to the last stop, both fixed:
+ * nearest neighbor for a first tour, then 2-opt until no reversal helps.
+ */
+export const orderStops = (distances: number[][]) => {
+  const last = distances.length - 1;
+  const order = [0];
+  const remaining = new Set(Array.from({ length: last - 1 }, (_, i) => i + 1));
+
+  while (remaining.size) {
+    const from = order[order.length - 1];
+    let nearest = -1;
+
+    remaining.forEach((stop) => {
+      if (nearest < 0 || distances[from][stop] < distances[from][nearest]) {
+        nearest = stop;
+      }
+    });
+
+    order.push(nearest);
+    remaining.delete(nearest);
+  }
+  order.push(last);
+
+  let improved = true;
+  while (improved) {
+    improved = false;
+
+    for (let i = 1; i < order.length - 2; i++) {
+      for (let k = i + 1; k < order.length - 1; k++) {
+        const delta =
+          distances[order[i - 1]][order[k]] +
+          distances[order[i]][order[k + 1]] -
+          distances[order[i - 1]][order[i]] -
+          distances[order[k]][order[k + 1]];
+
+        if (delta < 0) {
+          order.splice(i, k - i + 1, ...order.slice(i, k + 1).reverse());
+          improved = true;
+        }
+      }
+    }
+  }
+
+  return order;
+};
+
+/**
+ * Plans a picking round from start to end through every reachable target.
+ * Distances are grid walking distances, one breadth-first walk per stop.
+ */
+export const planPickRoute = (
+  start: GridCellCoord,
+  end: GridCellCoord,
+  targets: PickTarget[],
+  isWalkable: (coord: GridCellCoord) => boolean,
+  bounds: CellBounds
+): PickRoute | undefined => {
+  // every walk asks about the same cells
+  const walkable = new Map<string, boolean>();
+  const isWalkableCached = (coord: GridCellCoord) => {
+    const key = coordKey(coord);
+    let result = walkable.get(key);
+    if (result === undefined) {
+      result = isWalkable(coord);
+      walkable.set(key, result);
+    }
+    return result;
+  };
+
+  const fromStart = walkDistances(start, isWalkableCached, bounds);
+  if (!fromStart.has(coordKey(end))) return;
+
+  const stops: PickStop[] = [];
+  const unreachable: PickTarget[] = [];
+
+  for (const target of targets) {
+    let best: GridCellCoord | undefined;
+    let bestDistance = Infinity;
+
+    for (const coord of getAccessCells(target, isWalkableCached)) {
+      const distance = fromStart.get(coordKey(coord))?.distance ?? Infinity;
+      if (distance < bestDistance) {
+        best = coord;
+        bestDistance = distance;
+      }
+    }
+
+    if (best) stops.push({ target, coord: best });
+    else unreachable.push(target);
+  }
+
+  const points = [start, ...stops.map(({ coord }) => coord), end];
+  const walks: WalkMap[] = points.map((point, i) =>
+    i === 0 ? fromStart : walkDistances(point, isWalkableCached, bounds)
+  );
+  const distances = walks.map((walk) =>
+    points.map(
+      (point) => walk.get(coordKey(point))?.distance ?? Number.MAX_SAFE_INTEGER
+    )
+  );
+
+  const order = orderStops(distances);
+  const path: GridCellCoord[] = [];
+
+  for (let i = 1; i < order.length; i++) {
+    const leg = walkPath(walks[order[i - 1]], points[order[i]]) ?? [];
+    path.push(...(i === 1 ? leg : leg.slice(1)));
+  }
+
+  return {
+    stops: order.slice(1, -1).map((point) => stops[point - 1]),
+    path,
+    distance: pathLength(order, distances),
+    unreachable,
+  };
+};
@@ -0,0 +1,128 @@
+import { GridCellCoord } from "./types";
+
+type LocationLayer = { floorId: string; layerId: string };
+
+/**
+ * Where a product sits: either a whole region, which keeps working as the
+ * region grows or merges, or a fixed set of shelf cells.
+ */
+export type ProductLocation =
+  | (LocationLayer & { regionId: number })
+  | (LocationLayer & { cells: GridCellCoord[] });
+
+export type Product = {
+  sku: string;
+  name: string;
+  department: string;
+  location?: ProductLocation;
+};
+
+export const isRegionLocation = (
+  location: ProductLocation
+): location is LocationLayer & { regionId: number } => "regionId" in location;
+
+// quoted fields may hold commas, newlines and "" escapes
+export const parseCsv = (text: string) => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let inQuotes = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ",") {
+      row.push(field);
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && text[i + 1] === "\n") i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = "";
+    } else {
+      field += char;
+    }
+  }
+
+  if (field || row.length) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  return rows.filter((cells) => cells.some((cell) => cell.trim()));
+};
+
+/**
+ * Reads products from CSV with a header row. `sku` and `name` columns are
+ * required, `department` is optional; other columns are ignored.
+ */
+export const parseProductCsv = (text: string): Product[] => {
+  const [header, ...rows] = parseCsv(text);
+  if (!header) throw new Error("CSV file is empty");
+
+  const columns = header.map((column) => column.trim().toLowerCase());
+  const skuColumn = columns.indexOf("sku");
+  const nameColumn = columns.indexOf("name");
+  const departmentColumn = columns.indexOf("department");
+
+  if (skuColumn < 0 || nameColumn < 0) {
+    throw new Error('CSV needs "sku" and "name" columns');
+  }
+
+  return rows.map((row, i) => {
+    const sku = row[skuColumn]?.trim();
+    if (!sku) throw new Error(`CSV row ${i + 2} has no SKU`);
+
+    return {
+      sku,
+      name: row[nameColumn]?.trim() ?? "",
+      department: row[departmentColumn]?.trim() ?? "",
+    };
+  });
+};
+
+const matchRank = (product: Product, needle: string) => {
+  const sku = product.sku.toLowerCase();
+
+  if (sku === needle) return 0;
+  if (sku.startsWith(needle)) return 1;
+  if (product.name.toLowerCase().includes(needle)) return 2;
+  if (product.department.toLowerCase().includes(needle)) return 3;
+  return -1;
+};
+
+// exact SKU matches first, then SKU prefixes, then name & department matches
+export const searchProducts = (
+  products: Iterable<Product>,
+  query: string,
+  limit = 20
+) => {
+  const needle = query.trim().toLowerCase();
+  if (!needle) return [];
+
+  const ranked: Array<{ product: Product; rank: number }> = [];
+
+  for (const product of products) {
+    const rank = matchRank(product, needle);
+    if (rank >= 0) ranked.push({ product, rank });
+  }
+
+  return ranked
+    .sort(
+      (a, b) => a.rank - b.rank || a.product.name.localeCompare(b.product.name)
+    )
+    .slice(0, limit)
+    .map(({ product }) => product);
+};
@@ -0,0 +1,51 @@
+/**
+ * Union-find over region labels. Every cell keeps the label it was given when
+ * painted; the region it belongs to is the root of that label. Merging two
+ * regions links their roots instead of relabeling every absorbed cell.
+ *
+ * Unions are by rank and there is no path compression, so undo can restore a
+ * label's parent without other labels having been re-pointed past it.
+ */
+export class RegionIndex {
+  parents = new Map<number, number>();
+  ranks = new Map<number, number>();
+
+  find(label: number) {
+    let root = label;
+    let parent = this.parents.get(root);
+
+    while (parent !== undefined) {
+      root = parent;
+      parent = this.parents.get(root);
+    }
+
+    return root;
+  }
+
+  getParent(label: number) {
+    return this.parents.get(label);
+  }
+
+  setParent(label: number, parent: number | undefined) {
+    if (parent === undefined) {
+      this.parents.delete(label);
+    } else {
+      this.parents.set(label, parent);
+    }
+  }
+
+  // returns [root, child] for linking two roots, lower rank goes under higher
+  rankOrder(rootA: number, rootB: number): [number, number] {
+    const rankA = this.ranks.get(rootA) ?? 0;
+    const rankB = this.ranks.get(rootB) ?? 0;
+
+    if (rankA < rankB) return [rootB, rootA];
+    if (rankA === rankB) this.ranks.set(rootA, rankA + 1);
+    return [rootA, rootB];
+  }
+
+  clear() {
+    this.parents.clear();
+    this.ranks.clear();
+  }
+}
@@ -0,0 +1,86 @@
+import { groupCellsByRegion } from "./outline";
+import { RegionMeta } from "./regions";
+import { getCoordBounds } from "./selection";
+import { GridCell } from "./types";
+
+// measurements are in cells; a centroid is in cell units, 0.5 being a cell's middle
+export type RegionStats = {
+  regionId: number;
+  name: string;
+  fillStyle: string;
+  area: number;
+  perimeter: number;
+  bounds: { minRow: number; minCol: number; maxRow: number; maxCol: number };
+  centroid: { row: number; col: number };
+};
+
+export type ColorStats = {
+  fillStyle: string;
+  regionCount: number;
+  area: number;
+  perimeter: number;
+};
+
+const popCount = (mask: number) =>
+  (mask & 1) + ((mask >> 1) & 1) + ((mask >> 2) & 1) + ((mask >> 3) & 1);
+
+/**
+ * A region is one fill, so every side without a same-fill neighbor in the
+ * adjacency mask is on its outline, holes included.
+ */
+export const getRegionStats = (
+  regionId: number,
+  cells: GridCell[],
+  meta?: RegionMeta
+): RegionStats => {
+  let perimeter = 0;
+  let rowSum = 0;
+  let colSum = 0;
+
+  for (const cell of cells) {
+    perimeter += 4 - popCount(cell.adjacency);
+    rowSum += cell.row + 0.5;
+    colSum += cell.col + 0.5;
+  }
+
+  return {
+    regionId,
+    name: meta?.name ?? "",
+    fillStyle: cells[0]?.fillStyle ?? "",
+    area: cells.length,
+    perimeter,
+    bounds: getCoordBounds(cells),
+    centroid: { row: rowSum / cells.length, col: colSum / cells.length },
+  };
+};
+
+export const computeMapStats = (
+  cells: GridCell[],
+  getRegionId: (cell: GridCell) => number,
+  regionMeta: Map<number, RegionMeta>
+) => {
+  const regions: RegionStats[] = [];
+  const colors = new Map<string, ColorStats>();
+
+  groupCellsByRegion(cells, getRegionId).forEach((regionCells, regionId) => {
+    const stats = getRegionStats(
+      regionId,
+      regionCells,
+      regionMeta.get(regionId)
+    );
+    regions.push(stats);
+
+    const color = colors.get(stats.fillStyle) ?? {
+      fillStyle: stats.fillStyle,
+      regionCount: 0,
+      area: 0,
+      perimeter: 0,
+    };
+    color.regionCount++;
+    color.area += stats.area;
+    color.perimeter += stats.perimeter;
+    colors.set(stats.fillStyle, color);
+  });
+
+  return { regions, colors: [...colors.values()] };
+};
@@ -0,0 +1,44 @@
+export const regionCategories = [
+  "shelf",
+  "aisle",
+  "checkout",
+  "storage",
+  "entrance",
+] as const;
+export type RegionCategory = (typeof regionCategories)[number];
+
+export type RegionMeta = {
+  name: string;
+  category?: RegionCategory;
+  notes: string;
+};
+
+export const emptyRegionMeta = (): RegionMeta => ({ name: "", notes: "" });
+
+export const isRegionCategory = (value: unknown): value is RegionCategory =>
+  regionCategories.includes(value as RegionCategory);
+
+/**
+ * Merge rules: the surviving region keeps its own name and category. If it
+ * has no name, it adopts the name (and category, when it has none) of the
+ * first absorbed region that has one. Notes from every region are kept,
+ * joined in merge order.
+ */
+export const mergeRegionMeta = (
+  survivor: RegionMeta | undefined,
+  absorbed: Array<RegionMeta | undefined>
+): RegionMeta | undefined => {
+  const all = [survivor, ...absorbed].filter((m): m is RegionMeta => !!m);
+  if (!all.length) return;
+
+  const named = all.find((m) => m.name);
+  const notes = all
+    .map((m) => m.notes.trim())
+    .filter((n, i, list) => n && list.indexOf(n) === i);
+
+  return {
+    name: named?.name ?? "",
+    category: survivor?.category ?? named?.category,
+    notes: notes.join("\n"),
+  };
+};
@@ -0,0 +1,162 @@
+export type RenderContext =
+  | CanvasRenderingContext2D
+  | OffscreenCanvasRenderingContext2D;
+
+export type ChunkCoord = { chunkRow: number; chunkCol: number };
+
+type CachedChunk = {
+  canvas: OffscreenCanvas;
+  context: OffscreenCanvasRenderingContext2D;
+  scale: number;
+  dirty: boolean;
+};
+
+const DEFAULT_CHUNK_CELLS = 32;
+// about 256MB of bitmaps; zoomed in, a single chunk can take several MB
+const DEFAULT_MAX_CACHED_PIXELS = 64 * 1024 * 1024;
+
+/**
+ * Offscreen bitmaps of the painted layer, one per square chunk of cells.
+ * Chunks are rasterized at the current view scale and redrawn only when a
+ * cell inside them changes or the scale does, so panning just composites.
+ * Bitmaps not drawn for a while are dropped once they add up to more than
+ * `maxCachedPixels`, and chunks that turn out empty are forgotten.
+ */
+export class ChunkCache {
+  // least recently drawn first
+  chunks = new Map<string, CachedChunk>();
+  knownChunks = new Map<string, ChunkCoord>();
+  cachedPixels = 0;
+
+  constructor(
+    readonly chunkCells = DEFAULT_CHUNK_CELLS,
+    readonly maxCachedPixels = DEFAULT_MAX_CACHED_PIXELS
+  ) {}
+
+  chunkKey({ chunkRow, chunkCol }: ChunkCoord) {
+    return `${chunkRow}.${chunkCol}`;
+  }
+
+  cellToChunk(row: number, col: number): ChunkCoord {
+    return {
+      chunkRow: Math.floor(row / this.chunkCells),
+      chunkCol: Math.floor(col / this.chunkCells),
+    };
+  }
+
+  invalidateChunk(chunk: ChunkCoord) {
+    const key = this.chunkKey(chunk);
+
+    if (!this.knownChunks.has(key)) {
+      this.knownChunks.set(key, chunk);
+    }
+
+    const cached = this.chunks.get(key);
+    if (cached) cached.dirty = true;
+  }
+
+  // a cell's borders depend on its neighbors, so chunks across an edge go too
+  invalidateCell(row: number, col: number) {
+    const keys = new Set<string>();
+
+    for (const [dRow, dCol] of [
+      [0, 0],
+      [-1, 0],
+      [1, 0],
+      [0, -1],
+      [0, 1],
+    ]) {
+      const chunk = this.cellToChunk(row + dRow, col + dCol);
+      const key = this.chunkKey(chunk);
+      if (keys.has(key)) continue;
+
+      keys.add(key);
+      this.invalidateChunk(chunk);
+    }
+  }
+
+  invalidateAll() {
+    this.chunks.forEach((cached) => (cached.dirty = true));
+  }
+
+  clear() {
+    this.chunks.clear();
+    this.knownChunks.clear();
+    this.cachedPixels = 0;
+  }
+
+  dropBitmap(key: string) {
+    const cached = this.chunks.get(key);
+    if (!cached) return;
+
+    this.cachedPixels -= cached.canvas.width * cached.canvas.height;
+    this.chunks.delete(key);
+  }
+
+  // the chunk just drawn is the newest, so it's never the one dropped
+  evictBitmaps() {
+    for (const key of this.chunks.keys()) {
+      if (this.cachedPixels <= this.maxCachedPixels || this.chunks.size <= 1) {
+        return;
+      }
+      this.dropBitmap(key);
+    }
+  }
+
+  /**
+   * Returns the chunk bitmap, redrawing it first if stale. `draw` receives a
+   * cleared context already scaled to world units, with the chunk's top left
+   * corner at the origin, and returns how many cells it drew; with none, the
+   * chunk is forgotten and there's no bitmap.
+   */
+  getChunk(
+    chunk: ChunkCoord,
+    scale: number,
+    cellSize: number,
+    draw: (context: OffscreenCanvasRenderingContext2D) => number
+  ) {
+    const key = this.chunkKey(chunk);
+    const pixelSize = Math.ceil(this.chunkCells * cellSize * scale);
+    let cached = this.chunks.get(key);
+
+    if (cached) {
+      this.chunks.delete(key);
+      this.chunks.set(key, cached);
+    } else {
+      const canvas = new OffscreenCanvas(pixelSize, pixelSize);
+      const context = canvas.getContext("2d");
+      if (!context) throw new Error("Couldn't initialize offscreen context");
+
+      cached = { canvas, context, scale, dirty: true };
+      this.chunks.set(key, cached);
+      this.cachedPixels += pixelSize * pixelSize;
+    }
+
+    if (cached.dirty || cached.scale !== scale) {
+      if (cached.canvas.width !== pixelSize) {
+        this.cachedPixels +=
+          pixelSize * pixelSize - cached.canvas.width * cached.canvas.height;
+        cached.canvas.width = pixelSize;
+        cached.canvas.height = pixelSize;
+      }
+
+      const { context } = cached;
+      context.setTransform(1, 0, 0, 1, 0, 0);
+      context.clearRect(0, 0, pixelSize, pixelSize);
+      context.setTransform(scale, 0, 0, scale, 0, 0);
+      const cellCount = draw(context);
+
+      cached.scale = scale;
+      cached.dirty = false;
+
+      if (!cellCount) {
+        this.dropBitmap(key);
+        this.knownChunks.delete(key);
+        return;
+      }
+    }
+
+    this.evictBitmaps();
+    return cached.canvas;
+  }
+}
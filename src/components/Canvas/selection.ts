@@ -0,0 +1,76 @@
+import { RegionMeta } from "./regions";
+import { GridCellCoord } from "./types";
+
+export type StampCell = { dRow: number; dCol: number; fillStyle: string };
+
+// metadata of a region that was wholly inside the selection, anchored at one of its cells
+export type StampRegion = { dRow: number; dCol: number; meta: RegionMeta };
+
+/**
+ * A detached copy of selected cells, positioned relative to the top left
+ * corner of their bounding box. Used for the clipboard, moves and transforms.
+ */
+export type Stamp = {
+  height: number;
+  width: number;
+  cells: StampCell[];
+  regions: StampRegion[];
+};
+
+export const coordKey = ({ row, col }: GridCellCoord) => `${row}.${col}`;
+
+export const getCoordBounds = (coords: Iterable<GridCellCoord>) => {
+  let minRow = Infinity;
+  let minCol = Infinity;
+  let maxRow = -Infinity;
+  let maxCol = -Infinity;
+
+  for (const { row, col } of coords) {
+    minRow = Math.min(minRow, row);
+    minCol = Math.min(minCol, col);
+    maxRow = Math.max(maxRow, row);
+    maxCol = Math.max(maxCol, col);
+  }
+
+  return { minRow, minCol, maxRow, maxCol };
+};
+
+const mapStamp = (
+  stamp: Stamp,
+  size: { height: number; width: number },
+  move: (dRow: number, dCol: number) => { dRow: number; dCol: number }
+): Stamp => ({
+  ...size,
+  cells: stamp.cells.map((cell) => ({
+    ...cell,
+    ...move(cell.dRow, cell.dCol),
+  })),
+  regions: stamp.regions.map((region) => ({
+    ...region,
+    ...move(region.dRow, region.dCol),
+  })),
+});
+
+// 90° clockwise
+export const rotateStamp = (stamp: Stamp) =>
+  mapStamp(
+    stamp,
+    { height: stamp.width, width: stamp.height },
+    (dRow, dCol) => ({
+      dRow: dCol,
+      dCol: stamp.height - 1 - dRow,
+    })
+  );
+
+export const flipStamp = (stamp: Stamp, axis: "horizontal" | "vertical") =>
+  mapStamp(stamp, stamp, (dRow, dCol) =>
+    axis === "horizontal"
+      ? { dRow, dCol: stamp.width - 1 - dCol }
+      : { dRow: stamp.height - 1 - dRow, dCol }
+  );
+
+export const stampCoords = (stamp: Stamp, origin: GridCellCoord) =>
+  stamp.cells.map(({ dRow, dCol }) => ({
+    row: origin.row + dRow,
+    col: origin.col + dCol,
+  }));
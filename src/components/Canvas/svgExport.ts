@@ -0,0 +1,124 @@
+import tinycolor from "tinycolor2";
+import { OutlineRing, groupCellsByRegion, traceOutline } from "./outline";
+import { RegionMeta } from "./regions";
+import { GridCell } from "./types";
+
+export type SvgLayer = {
+  id: string;
+  name: string;
+  cells: GridCell[];
+  opacity?: number;
+  regionMeta?: Map<number, RegionMeta>;
+  getRegionId?: (cell: GridCell) => number;
+};
+
+export type SvgExportOptions = {
+  cellSize: number;
+  padding?: number;
+  lineWidth?: number;
+};
+
+const escapeXml = (value: string) =>
+  value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+
+const ringToPathData = (
+  ring: OutlineRing,
+  toSvg: (x: number, y: number) => string
+) =>
+  ring
+    .map((point, i) => `${i === 0 ? "M" : "L"}${toSvg(point.x, point.y)}`)
+    .join("") + "Z";
+
+const renderLayer = (
+  layer: SvgLayer,
+  toSvg: (x: number, y: number) => string,
+  lineWidth: number
+) => {
+  const { id: layerId, cells, regionMeta, getRegionId } = layer;
+  const groups = new Map<string, string[]>();
+
+  groupCellsByRegion(cells, getRegionId).forEach((regionCells, regionId) => {
+    const { fillStyle } = regionCells[0];
+    const d = traceOutline(regionCells)
+      .map((ring) => ringToPathData(ring, toSvg))
+      .join("");
+    const name = regionMeta?.get(regionId)?.name;
+    const title = name ? `<title>${escapeXml(name)}</title>` : "";
+
+    const path =
+      `<path id="${escapeXml(layerId)}-region-${regionId}" ` +
+      `data-region-id="${regionId}" d="${d}">${title}</path>`;
+
+    const paths = groups.get(fillStyle);
+    if (paths) paths.push(path);
+    else groups.set(fillStyle, [path]);
+  });
+
+  const body = [...groups]
+    .map(([fillStyle, paths]) => {
+      const fill = tinycolor(fillStyle).toHexString();
+      const stroke = tinycolor(fillStyle).darken().toHexString();
+
+      return (
+        `<g data-fill="${escapeXml(fillStyle)}" fill="${fill}" ` +
+        `stroke="${stroke}" stroke-width="${lineWidth}" stroke-linejoin="miter">` +
+        `\n      ${paths.join("\n      ")}\n    </g>`
+      );
+    })
+    .join("\n    ");
+  const opacity =
+    layer.opacity === undefined || layer.opacity === 1
+      ? ""
+      : ` opacity="${layer.opacity}"`;
+
+  return (
+    `<g id="layer-${escapeXml(layerId)}" data-layer="${escapeXml(
+      layer.name
+    )}"${opacity}>` + `\n    ${body}\n  </g>`
+  );
+};
+
+/**
+ * Renders every region as a single traced <path>, grouped by fill color,
+ * with one <g> per layer, bottom to top. Holes are separate subpaths wound
+ * the opposite way, so the default nonzero fill rule leaves them empty.
+ */
+export const exportSvg = (layers: SvgLayer[], options: SvgExportOptions) => {
+  const { cellSize, padding = cellSize, lineWidth = 1 } = options;
+  const cells = layers.flatMap((layer) => layer.cells);
+
+  if (!cells.length) {
+    return `<svg xmlns="http://www.w3.org/2000/svg" width="0" height="0"/>`;
+  }
+
+  let minRow = Infinity;
+  let minCol = Infinity;
+  let maxRow = -Infinity;
+  let maxCol = -Infinity;
+
+  for (const cell of cells) {
+    minRow = Math.min(minRow, cell.row);
+    minCol = Math.min(minCol, cell.col);
+    maxRow = Math.max(maxRow, cell.row);
+    maxCol = Math.max(maxCol, cell.col);
+  }
+
+  const width = (maxCol - minCol + 1) * cellSize + padding * 2;
+  const height = (maxRow - minRow + 1) * cellSize + padding * 2;
+  const toSvg = (x: number, y: number) =>
+    `${(x - minCol) * cellSize + padding} ${(y - minRow) * cellSize + padding}`;
+
+  const body = layers
+    .filter((layer) => layer.cells.length)
+    .map((layer) => renderLayer(layer, toSvg, lineWidth))
+    .join("\n  ");
+
+  return (
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" ` +
+    `viewBox="0 0 ${width} ${height}">\n  ${body}\n</svg>\n`
+  );
+};
@@ -0,0 +1,140 @@
+import { GridCellCoord } from "./types";
+
+export enum Tool {
+  Brush = "brush",
+  Rectangle = "rectangle",
+  RectangleOutline = "rectangleOutline",
+  Line = "line",
+  Ellipse = "ellipse",
+  Bucket = "bucket",
+  Select = "select",
+  Inspect = "inspect",
+  Route = "route",
+  Connector = "connector",
+  Calibrate = "calibrate",
+  Measure = "measure",
+  Annotate = "annotate",
+}
+
+export const toolLabels: Record<Tool, string> = {
+  [Tool.Brush]: "Brush",
+  [Tool.Rectangle]: "Rect",
+  [Tool.RectangleOutline]: "Outline",
+  [Tool.Line]: "Line",
+  [Tool.Ellipse]: "Ellipse",
+  [Tool.Bucket]: "Bucket",
+  [Tool.Select]: "Select",
+  [Tool.Inspect]: "Inspect",
+  [Tool.Route]: "Route",
+  [Tool.Connector]: "Connector",
+  [Tool.Calibrate]: "Calibrate",
+  [Tool.Measure]: "Measure",
+  [Tool.Annotate]: "Label",
+};
+
+export const isShapeTool = (tool: Tool) =>
+  tool === Tool.Rectangle ||
+  tool === Tool.RectangleOutline ||
+  tool === Tool.Line ||
+  tool === Tool.Ellipse;
+
+const getBounds = (a: GridCellCoord, b: GridCellCoord) => ({
+  minRow: Math.min(a.row, b.row),
+  maxRow: Math.max(a.row, b.row),
+  minCol: Math.min(a.col, b.col),
+  maxCol: Math.max(a.col, b.col),
+});
+
+export const rectangleCells = (
+  a: GridCellCoord,
+  b: GridCellCoord,
+  filled = true
+) => {
+  const { minRow, maxRow, minCol, maxCol } = getBounds(a, b);
+  const cells: GridCellCoord[] = [];
+
+  for (let row = minRow; row <= maxRow; row++) {
+    for (let col = minCol; col <= maxCol; col++) {
+      const isEdge =
+        row === minRow || row === maxRow || col === minCol || col === maxCol;
+      if (filled || isEdge) cells.push({ row, col });
+    }
+  }
+
+  return cells;
+};
+
+// Bresenham, walking from a to b
+export const lineCells = (a: GridCellCoord, b: GridCellCoord) => {
+  const cells: GridCellCoord[] = [];
+  const dCol = Math.abs(b.col - a.col);
+  const dRow = -Math.abs(b.row - a.row);
+  const stepCol = a.col < b.col ? 1 : -1;
+  const stepRow = a.row < b.row ? 1 : -1;
+
+  let { row, col } = a;
+  let error = dCol + dRow;
+
+  for (;;) {
+    cells.push({ row, col });
+    if (row === b.row && col === b.col) break;
+
+    const doubled = error * 2;
+    if (doubled >= dRow) {
+      error += dRow;
+      col += stepCol;
+    }
+    if (doubled <= dCol) {
+      error += dCol;
+      row += stepRow;
+    }
+  }
+
+  return cells;
+};
+
+// filled ellipse inscribed in the box spanned by a and b, tested at cell centers
+export const ellipseCells = (a: GridCellCoord, b: GridCellCoord) => {
+  const { minRow, maxRow, minCol, maxCol } = getBounds(a, b);
+  const radiusRow = (maxRow - minRow + 1) / 2;
+  const radiusCol = (maxCol - minCol + 1) / 2;
+  const centerRow = minRow + radiusRow;
+  const centerCol = minCol + radiusCol;
+  const cells: GridCellCoord[] = [];
+
+  for (let row = minRow; row <= maxRow; row++) {
+    for (let col = minCol; col <= maxCol; col++) {
+      const y = (row + 0.5 - centerRow) / radiusRow;
+      const x = (col + 0.5 - centerCol) / radiusCol;
+      if (x * x + y * y <= 1) cells.push({ row, col });
+    }
+  }
+
+  return cells;
+};
+
+// a round brush reaching `radius` cells out from the center cell
+export const brushCells = (center: GridCellCoord, radius: number) =>
+  ellipseCells(
+    { row: center.row - radius, col: center.col - radius },
+    { row: center.row + radius, col: center.col + radius }
+  );
+
+export const getShapeCells = (
+  tool: Tool,
+  from: GridCellCoord,
+  to: GridCellCoord
+) => {
+  switch (tool) {
+    case Tool.Rectangle:
+      return rectangleCells(from, to);
+    case Tool.RectangleOutline:
+      return rectangleCells(from, to, false);
+    case Tool.Line:
+      return lineCells(from, to);
+    case Tool.Ellipse:
+      return ellipseCells(from, to);
+    default:
+      return [];
+  }
+};
@@ -0,0 +1,31 @@
+export type XYCoord = {
+  x: number;
+  y: number;
+};
+
+export type GridCellCoord = {
+  row: number;
+  col: number;
+};
+
+export type GridCell = {
+  id: string;
+  row: number;
+  col: number;
+  neighbors: CellNeighbors;
+  fillStyle: string;
+  adjacency: number;
+  regionId: number;
+};
+
+export const directions = ["north", "east", "south", "west"] as const;
+export type Direction = (typeof directions)[number];
+
+export type CellNeighbors = { [key in Direction]: GridCell | undefined };
+
+export enum CardinalBit {
+  North = 1 << 3,
+  East = 1 << 2,
+  South = 1 << 1,
+  West = 1 << 0,
+}
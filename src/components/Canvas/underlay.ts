@@ -0,0 +1,68 @@
+import { XYCoord } from "./types";
+
+export const lengthUnits = ["ft", "m"] as const;
+
+export type LengthUnit = (typeof lengthUnits)[number];
+
+export const isLengthUnit = (value: unknown): value is LengthUnit =>
+  lengthUnits.includes(value as LengthUnit);
+
+// how long one cell is in the real store, in feet or meters
+export type MapScale = {
+  cellLength: number;
+  unit: LengthUnit;
+};
+
+/**
+ * Calibrates against two points on a floor plan: the world distance between
+ * them is `realDistance` long in the store.
+ */
+export const calibrateScale = (
+  worldDistance: number,
+  realDistance: number,
+  unit: LengthUnit,
+  cellSize: number
+): MapScale => ({
+  cellLength: (realDistance * cellSize) / worldDistance,
+  unit,
+});
+
+export const formatScale = ({ cellLength, unit }: MapScale) =>
+  `1 cell = ${Number(cellLength.toPrecision(3))} ${unit}`;
+
+/**
+ * A floor plan image drawn under a floor's grid. The image is kept as a data
+ * URL so it travels with the map file. `x` & `y` are the world position of
+ * its top left corner, `scale` is world pixels per image pixel and the
+ * image is rotated by `rotation` degrees about its center.
+ */
+export type Underlay = {
+  src: string;
+  x: number;
+  y: number;
+  rotation: number;
+  scale: number;
+  opacity: number;
+};
+
+export const createUnderlay = (src: string, position: XYCoord): Underlay => ({
+  src,
+  x: position.x,
+  y: position.y,
+  rotation: 0,
+  scale: 1,
+  opacity: 0.5,
+});
+
+export const readImageFile = (file: File) =>
+  new Promise<string>((resolve, reject) => {
+    if (!file.type.startsWith("image/")) {
+      reject(new Error(`"${file.name}" isn't an image`));
+      return;
+    }
+
+    const reader = new FileReader();
+    reader.onload = () => resolve(String(reader.result));
+    reader.onerror = () => reject(new Error(`Couldn't read "${file.name}"`));
+    reader.readAsDataURL(file);
+  });
@@ -0,0 +1,124 @@
+import { XYCoord } from "./types";
+
+// DOMMatrix components of a view transform, as stored in the map file
+export type ViewComponents = [number, number, number, number, number, number];
+
+export const viewComponents = ({
+  a,
+  b,
+  c,
+  d,
+  e,
+  f,
+}: DOMMatrix): ViewComponents => [a, b, c, d, e, f];
+
+// a named pan & zoom, on the floor it was saved on
+export type ViewBookmark = {
+  id: string;
+  name: string;
+  floorId: string;
+  view: ViewComponents;
+};
+
+export const createBookmarkId = (bookmarks: ViewBookmark[]) => {
+  let n = bookmarks.length + 1;
+  while (bookmarks.some(({ id }) => id === `view-${n}`)) n++;
+
+  return `view-${n}`;
+};
+
+export const VIEW_ANIMATION_MS = 300;
+
+const easeInOut = (t: number) =>
+  t < 0.5 ? 2 * t * t : 1 - Math.pow(-2 * t + 2, 2) / 2;
+
+/**
+ * The view `t` of the way from one to the other. Views only pan & zoom, so
+ * the center moves in a straight line while the scale changes by a constant
+ * factor per frame; blending the matrices directly swings out on long zooms.
+ */
+export const interpolateView = (
+  from: DOMMatrix,
+  to: DOMMatrix,
+  t: number,
+  canvasCenter: XYCoord
+): ViewComponents => {
+  const progress = easeInOut(t);
+  const centerOf = (view: DOMMatrix) => ({
+    x: (canvasCenter.x - view.e) / view.a,
+    y: (canvasCenter.y - view.f) / view.a,
+  });
+  const fromCenter = centerOf(from);
+  const toCenter = centerOf(to);
+
+  const scale = from.a * Math.pow(to.a / from.a, progress);
+  const center = {
+    x: fromCenter.x + (toCenter.x - fromCenter.x) * progress,
+    y: fromCenter.y + (toCenter.y - fromCenter.y) * progress,
+  };
+
+  return [
+    scale,
+    0,
+    0,
+    scale,
+    canvasCenter.x - center.x * scale,
+    canvasCenter.y - center.y * scale,
+  ];
+};
+
+const MINIMAP_MAX_WIDTH = 160;
+const MINIMAP_MAX_HEIGHT = 120;
+const MINIMAP_MARGIN = 8;
+
+// where the minimap sits on the canvas and how it maps the world onto it
+export type MinimapLayout = {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  scale: number;
+  worldOrigin: XYCoord;
+};
+
+// fits the world rectangle into the bottom right corner of the canvas
+export const getMinimapLayout = (
+  worldMin: XYCoord,
+  worldMax: XYCoord,
+  canvasSize: { width: number; height: number }
+): MinimapLayout => {
+  const scale = Math.min(
+    MINIMAP_MAX_WIDTH / (worldMax.x - worldMin.x),
+    MINIMAP_MAX_HEIGHT / (worldMax.y - worldMin.y)
+  );
+  const width = (worldMax.x - worldMin.x) * scale;
+  const height = (worldMax.y - worldMin.y) * scale;
+
+  return {
+    x: canvasSize.width - width - MINIMAP_MARGIN,
+    y: canvasSize.height - height - MINIMAP_MARGIN,
+    width,
+    height,
+    scale,
+    worldOrigin: worldMin,
+  };
+};
+
+export const isInMinimap = (layout: MinimapLayout, canvasCoord: XYCoord) =>
+  canvasCoord.x >= layout.x &&
+  canvasCoord.x <= layout.x + layout.width &&
+  canvasCoord.y >= layout.y &&
+  canvasCoord.y <= layout.y + layout.height;
+
+export const minimapToWorld = (
+  layout: MinimapLayout,
+  canvasCoord: XYCoord
+) => ({
+  x: layout.worldOrigin.x + (canvasCoord.x - layout.x) / layout.scale,
+  y: layout.worldOrigin.y + (canvasCoord.y - layout.y) / layout.scale,
+});
+
+export const worldToMinimap = (layout: MinimapLayout, worldCoord: XYCoord) => ({
+  x: layout.x + (worldCoord.x - layout.worldOrigin.x) * layout.scale,
+  y: layout.y + (worldCoord.y - layout.worldOrigin.y) * layout.scale,
+});